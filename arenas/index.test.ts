@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { ARENAS, parseArena, ArenaFormatError } from '.';
+
+const base = () => structuredClone(ARENAS[0]);
+
+describe('parseArena', () => {
+  it('accepts the built-in arenas', () => {
+    ARENAS.forEach(arena => expect(parseArena(structuredClone(arena))).toEqual(arena));
+  });
+
+  it.each([
+    ['a missing id', { id: undefined }],
+    ['a zero size', { size: 0 }],
+    ['a missing list', { pits: undefined }],
+    ['a pit with two corners', { pits: [{ polygon: [[0, 0], [1, 1]] }] }],
+    ['a wall without an end', { walls: [{ from: [0, 0] }] }],
+    ['a spinner with no radius', { spinners: [{ position: [0, 0], radius: 0, speed: 2 }] }],
+    ['a vent with a zero period', { vents: [{ position: [0, 0], radius: 1, period: 0, duration: 1, damage: 5 }] }],
+    ['a vent with a negative radius', { vents: [{ position: [0, 0], radius: -1, period: 3, duration: 1, damage: 5 }] }],
+    ['a vent with a string offset', { vents: [{ position: [0, 0], radius: 1, period: 3, duration: 1, offset: '1', damage: 5 }] }],
+    ['a hammer with a zero period', { hammers: [{ position: [0, 0], rotation: 0, reach: 3, width: 1, period: 0, damage: 10, knock: 1 }] }],
+    ['a hammer with no reach', { hammers: [{ position: [0, 0], rotation: 0, reach: 0, width: 1, period: 2, damage: 10, knock: 1 }] }],
+    ['a hammer with a negative width', { hammers: [{ position: [0, 0], rotation: 0, reach: 3, width: -1, period: 2, damage: 10, knock: 1 }] }]
+  ])('rejects %s', (_, patch) => {
+    expect(() => parseArena({ ...base(), ...patch })).toThrow(ArenaFormatError);
+  });
+
+  it('rejects a non-object', () => {
+    expect(() => parseArena(null)).toThrow(ArenaFormatError);
+  });
+});
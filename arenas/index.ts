@@ -0,0 +1,66 @@
+import { ArenaDefinition, Vec2 } from '../types';
+import classic from './classic.json';
+import foundry from './foundry.json';
+import landslide from './landslide.json';
+
+export class ArenaFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArenaFormatError';
+  }
+}
+
+const isVec2 = (value: unknown): value is Vec2 =>
+  Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && Number.isFinite(n));
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Hazard cycles and sizes; a zero period would make every phase NaN.
+const isPositive = (value: unknown): value is number => isNumber(value) && value > 0;
+
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+
+const isPit = (p: Record<string, unknown>) => Array.isArray(p.polygon) && p.polygon.length >= 3 && p.polygon.every(isVec2);
+
+const requireList = <T>(data: Record<string, unknown>, key: string, check: (item: Record<string, unknown>) => boolean): T[] => {
+  const list = data[key];
+  if (!Array.isArray(list)) throw new ArenaFormatError(`Arena "${String(data.id)}" is missing "${key}"`);
+  list.forEach((item, i) => {
+    if (!item || typeof item !== 'object' || !check(item as Record<string, unknown>)) {
+      throw new ArenaFormatError(`Arena "${String(data.id)}" has an invalid ${key}[${i}]`);
+    }
+  });
+  return list as T[];
+};
+
+/** Validates arena JSON against the shape in arena.schema.json. */
+export const parseArena = (value: unknown): ArenaDefinition => {
+  if (!value || typeof value !== 'object') throw new ArenaFormatError('Arena definition must be an object');
+  const data = value as Record<string, unknown>;
+  if (typeof data.id !== 'string' || typeof data.name !== 'string' || !isNumber(data.size) || data.size <= 0) {
+    throw new ArenaFormatError('Arena definition needs an id, name and positive size');
+  }
+  return {
+    id: data.id,
+    name: data.name,
+    size: data.size,
+    walls: requireList(data, 'walls', w => isVec2(w.from) && isVec2(w.to)),
+    pillars: requireList(data, 'pillars', p => isVec2(p)),
+    pits: requireList(data, 'pits', isPit),
+    releasePits: requireList(data, 'releasePits', isPit),
+    spinners: requireList(data, 'spinners', s => isVec2(s.position) && isPositive(s.radius) && isNumber(s.speed)),
+    vents: requireList(data, 'vents', v =>
+      isVec2(v.position) && isPositive(v.radius) && isPositive(v.period) && isNumber(v.duration) &&
+      isOptionalNumber(v.offset) && isNumber(v.damage)),
+    hammers: requireList(data, 'hammers', h =>
+      isVec2(h.position) && isNumber(h.rotation) && isPositive(h.reach) && isPositive(h.width) &&
+      isPositive(h.period) && isOptionalNumber(h.offset) && isNumber(h.damage) && isNumber(h.knock)),
+    slopes: requireList(data, 'slopes', s => isVec2(s.min) && isVec2(s.max) && isVec2(s.push))
+  };
+};
+
+export const ARENAS: ArenaDefinition[] = [classic, foundry, landslide].map(parseArena);
+
+export const DEFAULT_ARENA = ARENAS[0];
+
+export const getArena = (id: string) => ARENAS.find(a => a.id === id) ?? DEFAULT_ARENA;
@@ -0,0 +1,249 @@
+import { AudioMixer, RobotData } from '../types';
+import { MOTOR_BASE_HZ, MOTOR_HZ_PER_SPEED, SPINNER_WHINE_HZ, IMPACT_FULL_IMPULSE } from '../constants';
+
+// Per-robot looping voices: a filtered sawtooth motor and, for spinners, a whine.
+interface RobotVoice {
+  panner: PannerNode;
+  motor: OscillatorNode;
+  motorGain: GainNode;
+  whine: OscillatorNode | null;
+  whineGain: GainNode | null;
+}
+
+export type AudioCue = 'victory' | 'defeat';
+
+export interface AudioEngine {
+  /** Must be called from a user gesture before anything is heard. */
+  unlock: () => void;
+  setMixer: (mixer: AudioMixer) => void;
+  setListener: (position: { x: number; y: number; z: number }, forward: { x: number; y: number; z: number }) => void;
+  updateRobots: (robots: RobotData[]) => void;
+  impact: (x: number, z: number, impulse: number) => void;
+  cue: (cue: AudioCue) => void;
+  silence: () => void;
+}
+
+const RAMP = 0.05; // Seconds; smooths parameter changes made once per frame
+
+const createPanner = (ctx: AudioContext, output: AudioNode) => {
+  const panner = ctx.createPanner();
+  panner.panningModel = 'HRTF';
+  panner.distanceModel = 'inverse';
+  panner.refDistance = 4;
+  panner.rolloffFactor = 1.2;
+  panner.connect(output);
+  return panner;
+};
+
+const noiseBuffer = (ctx: AudioContext, seconds: number) => {
+  const buffer = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * seconds), ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+// Envelope: silence -> `peak` in `attack` seconds, then exponential decay over `decay`.
+const envelope = (param: AudioParam, start: number, peak: number, attack: number, decay: number) => {
+  param.setValueAtTime(0.0001, start);
+  param.exponentialRampToValueAtTime(Math.max(peak, 0.0002), start + attack);
+  param.exponentialRampToValueAtTime(0.0001, start + attack + decay);
+};
+
+/**
+ * Everything is synthesised on the fly; there are no sample files. The
+ * AudioContext is only created on `unlock`, since browsers refuse to start one
+ * outside a user gesture.
+ */
+export const createAudioEngine = (): AudioEngine => {
+  let ctx: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let sfx: GainNode | null = null;
+  let noise: AudioBuffer | null = null;
+  let mixer: AudioMixer | null = null;
+  const voices = new Map<string, RobotVoice>();
+
+  const applyMixer = () => {
+    if (!ctx || !master || !sfx || !mixer) return;
+    master.gain.setTargetAtTime(mixer.muted ? 0 : mixer.master, ctx.currentTime, RAMP);
+    sfx.gain.setTargetAtTime(mixer.sfx, ctx.currentTime, RAMP);
+  };
+
+  const createVoice = (audio: AudioContext, output: AudioNode, robot: RobotData): RobotVoice => {
+    const panner = createPanner(audio, output);
+    const motor = audio.createOscillator();
+    motor.type = 'sawtooth';
+    const filter = audio.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 400;
+    const motorGain = audio.createGain();
+    motorGain.gain.value = 0;
+    motor.connect(filter).connect(motorGain).connect(panner);
+    motor.start();
+
+    let whine: OscillatorNode | null = null, whineGain: GainNode | null = null;
+    if (robot.type === 'spinner') {
+      whine = audio.createOscillator();
+      whine.type = 'triangle';
+      whineGain = audio.createGain();
+      whineGain.gain.value = 0;
+      whine.connect(whineGain).connect(panner);
+      whine.start();
+    }
+    return { panner, motor, motorGain, whine, whineGain };
+  };
+
+  const stopVoice = (voice: RobotVoice) => {
+    voice.motor.stop();
+    voice.whine?.stop();
+    voice.panner.disconnect();
+  };
+
+  return {
+    unlock: () => {
+      if (!ctx) {
+        ctx = new AudioContext();
+        master = ctx.createGain();
+        sfx = ctx.createGain();
+        sfx.connect(master).connect(ctx.destination);
+        noise = noiseBuffer(ctx, 2);
+        applyMixer();
+      }
+      if (ctx.state === 'suspended') void ctx.resume();
+    },
+
+    setMixer: (next) => {
+      mixer = next;
+      applyMixer();
+    },
+
+    setListener: (position, forward) => {
+      if (!ctx) return;
+      const { listener } = ctx;
+      const t = ctx.currentTime;
+      if (listener.positionX) {
+        listener.positionX.setTargetAtTime(position.x, t, RAMP);
+        listener.positionY.setTargetAtTime(position.y, t, RAMP);
+        listener.positionZ.setTargetAtTime(position.z, t, RAMP);
+        listener.forwardX.setTargetAtTime(forward.x, t, RAMP);
+        listener.forwardY.setTargetAtTime(forward.y, t, RAMP);
+        listener.forwardZ.setTargetAtTime(forward.z, t, RAMP);
+      } else {
+        // Older Safari only has the deprecated setters.
+        listener.setPosition(position.x, position.y, position.z);
+        listener.setOrientation(forward.x, forward.y, forward.z, 0, 1, 0);
+      }
+    },
+
+    updateRobots: (robots) => {
+      if (!ctx || !sfx) return;
+      const t = ctx.currentTime;
+      const live = new Set<string>();
+      robots.forEach(robot => {
+        if (robot.isDead) return;
+        live.add(robot.id);
+        let voice = voices.get(robot.id);
+        if (!voice) {
+          voice = createVoice(ctx!, sfx!, robot);
+          voices.set(robot.id, voice);
+        }
+        voice.panner.positionX.setTargetAtTime(robot.position.x, t, RAMP);
+        voice.panner.positionY.setTargetAtTime(robot.height, t, RAMP);
+        voice.panner.positionZ.setTargetAtTime(robot.position.z, t, RAMP);
+
+        const speed = Math.hypot(robot.velocity.x, robot.velocity.z);
+        voice.motor.frequency.setTargetAtTime(MOTOR_BASE_HZ + speed * MOTOR_HZ_PER_SPEED, t, RAMP);
+        voice.motorGain.gain.setTargetAtTime(0.04 + Math.min(speed * 2, 0.2), t, RAMP);
+
+        if (voice.whine && voice.whineGain) {
+          const [low, high] = SPINNER_WHINE_HZ;
+          voice.whine.frequency.setTargetAtTime(low + (high - low) * robot.weaponEnergy, t, RAMP);
+          voice.whineGain.gain.setTargetAtTime(robot.weaponActive || robot.weaponEnergy > 0 ? 0.03 + robot.weaponEnergy * 0.08 : 0, t, RAMP);
+        }
+      });
+      voices.forEach((voice, id) => {
+        if (live.has(id)) return;
+        stopVoice(voice);
+        voices.delete(id);
+      });
+    },
+
+    impact: (x, z, impulse) => {
+      if (!ctx || !sfx || !noise) return;
+      const loudness = Math.min(1, impulse / IMPACT_FULL_IMPULSE);
+      const t = ctx.currentTime;
+      const panner = createPanner(ctx, sfx);
+      panner.positionX.value = x;
+      panner.positionY.value = 0.5;
+      panner.positionZ.value = z;
+
+      // Clank: a short band-passed noise burst...
+      const burst = ctx.createBufferSource();
+      burst.buffer = noise;
+      const band = ctx.createBiquadFilter();
+      band.type = 'bandpass';
+      band.frequency.value = 900 + loudness * 1500;
+      band.Q.value = 2;
+      const burstGain = ctx.createGain();
+      envelope(burstGain.gain, t, loudness * 0.9, 0.005, 0.12 + loudness * 0.1);
+      burst.connect(band).connect(burstGain).connect(panner);
+      burst.start(t, Math.random());
+      burst.stop(t + 0.4);
+
+      // ...over inharmonic partials that ring like a struck plate.
+      [1, 2.76, 5.4].forEach((ratio, i) => {
+        const osc = ctx!.createOscillator();
+        osc.frequency.value = (180 + loudness * 120) * ratio;
+        const gain = ctx!.createGain();
+        envelope(gain.gain, t, (loudness * 0.25) / (i + 1), 0.003, 0.3 + loudness * 0.4);
+        osc.connect(gain).connect(panner);
+        osc.start(t);
+        osc.stop(t + 1);
+      });
+      setTimeout(() => panner.disconnect(), 1200);
+    },
+
+    cue: (cue) => {
+      if (!ctx || !sfx || !noise) return;
+      const t = ctx.currentTime;
+      if (cue === 'defeat') {
+        // Buzzer: two detuned squares through a lowpass.
+        [110, 116].forEach(freq => {
+          const osc = ctx!.createOscillator();
+          osc.type = 'square';
+          osc.frequency.value = freq;
+          const gain = ctx!.createGain();
+          gain.gain.setValueAtTime(0.12, t);
+          gain.gain.setValueAtTime(0.12, t + 0.9);
+          gain.gain.linearRampToValueAtTime(0, t + 1);
+          osc.connect(gain).connect(sfx!);
+          osc.start(t);
+          osc.stop(t + 1);
+        });
+        return;
+      }
+      // Crowd: looping noise shaped like a cheer, swelling and fading over ~3s.
+      const crowd = ctx.createBufferSource();
+      crowd.buffer = noise;
+      crowd.loop = true;
+      const band = ctx.createBiquadFilter();
+      band.type = 'bandpass';
+      band.frequency.value = 1100;
+      band.Q.value = 0.7;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0.0001, t);
+      gain.gain.exponentialRampToValueAtTime(0.35, t + 0.4);
+      gain.gain.exponentialRampToValueAtTime(0.0001, t + 3);
+      crowd.connect(band).connect(gain).connect(sfx);
+      crowd.start(t);
+      crowd.stop(t + 3);
+    },
+
+    silence: () => {
+      voices.forEach(stopVoice);
+      voices.clear();
+    }
+  };
+};
+
+// Shared by the scene and the HUD mixer.
+export const audioEngine = createAudioEngine();
@@ -0,0 +1,15 @@
+import { AudioMixer } from '../types';
+import { DEFAULT_MIXER, MIXER_STORAGE_KEY } from '../constants';
+import { loadJson, saveJson } from '../settings/storage';
+
+const isVolume = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isMixer = (value: unknown): value is AudioMixer => {
+  if (!value || typeof value !== 'object') return false;
+  const { master, sfx, muted } = value as Partial<AudioMixer>;
+  return isVolume(master) && isVolume(sfx) && typeof muted === 'boolean';
+};
+
+export const loadMixer = (): AudioMixer => loadJson(MIXER_STORAGE_KEY, isMixer) ?? { ...DEFAULT_MIXER };
+
+export const saveMixer = (mixer: AudioMixer) => saveJson(MIXER_STORAGE_KEY, mixer);
@@ -0,0 +1,103 @@
+import { BotCommand, BotSensors, sanitizeCommand } from './sensors';
+import type { WorkerReply, WorkerRequest } from './brainWorker';
+import { BOT_TICK_BUDGET_MS, BOT_WATCHDOG_MS, BOT_MAX_OVERRUNS } from '../constants';
+
+export type BrainStatus =
+  | { state: 'loading' }
+  | { state: 'ready' }
+  | { state: 'failed'; reason: string };
+
+export interface BrainHost {
+  /** Sends this tick's sensors unless the last ones are still being thought about. */
+  request: (sensors: BotSensors) => void;
+  /** The most recent in-budget command; idle until the script has answered once. */
+  command: () => BotCommand;
+  status: () => BrainStatus;
+  dispose: () => void;
+}
+
+const IDLE: BotCommand = { throttle: 0, turn: 0, weapon: false };
+
+/**
+ * Runs one bot script in its own worker. The sim never waits on it: each tick
+ * takes whatever the script last answered, so a slow script reacts late rather
+ * than stalling the match. Replies over the per-tick budget are thrown away, and
+ * a script that keeps overrunning or stops answering is shut down.
+ */
+export const createBrainHost = (source: string, onStatus?: (status: BrainStatus) => void): BrainHost => {
+  const worker = new Worker(new URL('./brainWorker.ts', import.meta.url), { type: 'module' });
+  let status: BrainStatus = { state: 'loading' };
+  let latest = IDLE;
+  let seq = 0;
+  // When the outstanding load or think was sent; the watchdog measures from here.
+  let pendingSince: number | null = performance.now();
+  let overruns = 0;
+
+  const send = (request: WorkerRequest) => worker.postMessage(request);
+
+  const fail = (reason: string) => {
+    if (status.state === 'failed') return;
+    worker.terminate();
+    latest = IDLE;
+    status = { state: 'failed', reason };
+    onStatus?.(status);
+  };
+
+  worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+    const reply = e.data;
+    if (status.state === 'failed') return;
+    if (reply.kind === 'ready') {
+      pendingSince = null;
+      status = { state: 'ready' };
+      onStatus?.(status);
+    } else if (reply.kind === 'error') {
+      fail(reply.message);
+    } else if (reply.seq === seq) {
+      pendingSince = null;
+      if (reply.elapsed > BOT_TICK_BUDGET_MS) {
+        if (++overruns >= BOT_MAX_OVERRUNS) fail(`Over the ${BOT_TICK_BUDGET_MS}ms tick budget ${overruns} ticks running`);
+        return;
+      }
+      overruns = 0;
+      latest = sanitizeCommand(reply.command);
+    }
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(e.message || 'Worker crashed');
+  };
+  send({ kind: 'load', source });
+
+  return {
+    request: (sensors) => {
+      if (status.state === 'failed') return;
+      const now = performance.now();
+      if (pendingSince !== null) {
+        // Workers can't be interrupted, so a stuck script is only noticed from here.
+        if (now - pendingSince > BOT_WATCHDOG_MS) fail(`No answer for ${BOT_WATCHDOG_MS}ms`);
+        return;
+      }
+      pendingSince = now;
+      send({ kind: 'think', seq: ++seq, sensors });
+    },
+    command: () => latest,
+    status: () => status,
+    dispose: () => {
+      worker.terminate();
+      status = { state: 'failed', reason: 'Disposed' };
+    }
+  };
+};
+
+/** Loads a script just far enough to find its `brain`, then shuts it down. */
+export const checkScript = (source: string): Promise<string | null> => new Promise(resolve => {
+  const finish = (error: string | null) => {
+    clearTimeout(timeout);
+    host.dispose();
+    resolve(error);
+  };
+  const host = createBrainHost(source, (status) => {
+    if (status.state !== 'loading') finish(status.state === 'failed' ? status.reason : null);
+  });
+  const timeout = setTimeout(() => finish(`No answer for ${BOT_WATCHDOG_MS}ms`), BOT_WATCHDOG_MS);
+});
@@ -0,0 +1,78 @@
+import type { BotBrain, BotSensors } from './sensors';
+
+export type WorkerRequest =
+  | { kind: 'load'; source: string }
+  | { kind: 'think'; seq: number; sensors: BotSensors };
+
+export type WorkerReply =
+  | { kind: 'ready' }
+  | { kind: 'error'; message: string }
+  | { kind: 'command'; seq: number; command: unknown; elapsed: number };
+
+// Bound before any script runs. The worker is the real sandbox: a script that
+// digs its way back to the worker globals can only break its own bot, since the
+// page treats every reply as untrusted (see sanitizeCommand).
+const postReply = self.postMessage.bind(self);
+const post = (reply: WorkerReply) => postReply(reply);
+
+// The worker already has no DOM; this also takes away its ways out to the network.
+const BLOCKED_GLOBALS = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'Worker'];
+BLOCKED_GLOBALS.forEach(name => {
+  try {
+    Object.defineProperty(self, name, { value: undefined, configurable: false, writable: false });
+  } catch {
+    // Some globals are non-configurable in some engines; the shadowed parameters below still hide them.
+  }
+});
+
+const deepFreeze = <T>(value: T): T => {
+  if (value && typeof value === 'object') {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+};
+
+const describe = (err: unknown) => (err instanceof Error ? `${err.name}: ${err.message}` : String(err));
+
+let brain: BotBrain | null = null;
+
+const load = (source: string) => {
+  // Strict mode keeps `this` undefined and makes writes to the frozen sensors throw.
+  // Shadowing the worker globals as parameters hides them from the script body.
+  const factory = new Function(
+    'self', 'globalThis', 'postMessage', 'onmessage', 'close',
+    `'use strict';\n${source}\n;return typeof brain === 'function' ? brain : null;`
+  );
+  const found = factory();
+  if (typeof found !== 'function') throw new Error('Script must define a function named `brain`');
+  brain = found as BotBrain;
+};
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  if (request.kind === 'load') {
+    try {
+      load(request.source);
+      post({ kind: 'ready' });
+    } catch (err) {
+      post({ kind: 'error', message: describe(err) });
+    }
+    return;
+  }
+  if (!brain) return;
+  const started = performance.now();
+  let command: unknown = null;
+  try {
+    command = brain(deepFreeze(request.sensors));
+  } catch (err) {
+    post({ kind: 'error', message: describe(err) });
+    return;
+  }
+  // Only plain data survives postMessage; anything else idles on the page side.
+  try {
+    post({ kind: 'command', seq: request.seq, command, elapsed: performance.now() - started });
+  } catch {
+    post({ kind: 'command', seq: request.seq, command: null, elapsed: performance.now() - started });
+  }
+};
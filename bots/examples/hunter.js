@@ -0,0 +1,24 @@
+// Example bot script: charge the nearest enemy and fire when close.
+// Load it from SCRIPTS on the start screen. See bots/sensors.ts for every field.
+
+const wrap = (a) => Math.atan2(Math.sin(a), Math.cos(a));
+
+function brain(sensors) {
+  const { self, enemies } = sensors;
+  if (enemies.length === 0) return { throttle: 0, turn: 0, weapon: false };
+
+  let target = enemies[0];
+  let best = Infinity;
+  for (const enemy of enemies) {
+    const d = Math.hypot(enemy.x - self.x, enemy.z - self.z);
+    if (d < best) { best = d; target = enemy; }
+  }
+
+  // Headings follow Math.atan2(dx, dz); positive turn increases the heading.
+  const bearing = wrap(Math.atan2(target.x - self.x, target.z - self.z) - self.heading);
+  return {
+    throttle: Math.abs(bearing) < 0.6 ? 1 : 0.2,
+    turn: Math.max(-1, Math.min(1, bearing * 3)),
+    weapon: best < 3
+  };
+}
@@ -0,0 +1,44 @@
+import { RobotData } from '../types';
+import { World, WorldInputs } from '../sim/world';
+import { BrainHost, BrainStatus, createBrainHost } from './brainHost';
+import { buildSensors } from './sensors';
+
+// A loaded script file. Scripts are keyed by the robot id they drive.
+export interface BotScript {
+  name: string;
+  source: string;
+}
+
+export type Brains = Record<string, BrainHost>;
+
+/** Starts a worker for every robot in the roster that has a script assigned. */
+export const startBrains = (
+  scripts: Record<string, BotScript>,
+  robots: RobotData[],
+  onStatus: (robotId: string, status: BrainStatus) => void
+): Brains => {
+  const brains: Brains = {};
+  robots.forEach(robot => {
+    const script = scripts[robot.id];
+    if (script) brains[robot.id] = createBrainHost(script.source, (status) => onStatus(robot.id, status));
+  });
+  return brains;
+};
+
+export const stopBrains = (brains: Brains) => Object.values(brains).forEach(brain => brain.dispose());
+
+/**
+ * Hands each scripted robot this tick's sensors and collects whatever its
+ * script last answered. The result is merged into the tick's inputs, so it's
+ * recorded in replays like any player's.
+ */
+export const brainInputs = (brains: Brains, world: World): WorldInputs => {
+  const inputs: WorldInputs = {};
+  world.robots.forEach(robot => {
+    const brain = brains[robot.id];
+    if (!brain || robot.isDead) return;
+    brain.request(buildSensors(world, robot));
+    inputs[robot.id] = brain.command();
+  });
+  return inputs;
+};
@@ -0,0 +1,128 @@
+import { RobotData, RobotType, ControlInput, Vec2, RobotSubsystems, PickupKind } from '../types';
+import { World } from '../sim/world';
+import { cloneSubsystems } from '../sim/subsystems';
+import { EFFECT_TIMERS, TimedPickup } from '../sim/pickups';
+import { openPits } from '../sim/arena';
+import { timeLeft, pitsReleased } from '../sim/clock';
+
+export interface BotSelf {
+  id: string;
+  type: RobotType;
+  x: number;
+  z: number;
+  // Radians; 0 faces +z, matching Math.atan2(dx, dz).
+  heading: number;
+  vx: number;
+  vz: number;
+  health: number;
+  maxHealth: number;
+  weaponActive: boolean;
+  weaponEnergy: number;
+  // Seconds until the wedge lift / tank ram can fire again.
+  weaponCooldown: number;
+  // Part integrity from 1 (intact) to 0 (wrecked).
+  subsystems: RobotSubsystems;
+  // Seconds each pickup effect has left, 0 when it isn't running.
+  effects: Record<TimedPickup, number>;
+}
+
+export interface BotEnemy {
+  id: string;
+  type: RobotType;
+  x: number;
+  z: number;
+  heading: number;
+  health: number;
+  maxHealth: number;
+}
+
+export interface BotPickup {
+  kind: PickupKind;
+  x: number;
+  z: number;
+}
+
+export interface BotArena {
+  // The square floor spans [-halfSize, halfSize] on both axes.
+  halfSize: number;
+  // Open pits, release pits included once they've opened.
+  pits: Vec2[][];
+  pillars: Vec2[];
+  // King of the hill: the hill is a circle of this radius at the centre. Null in other games.
+  hillRadius: number | null;
+}
+
+/** Everything a script can see on one tick. It arrives frozen. */
+export interface BotSensors {
+  time: number;
+  // Seconds until the judges decide; null in an untimed match.
+  timeLeft: number | null;
+  tick: number;
+  self: BotSelf;
+  enemies: BotEnemy[];
+  pickups: BotPickup[];
+  arena: BotArena;
+}
+
+export type BotCommand = ControlInput;
+
+/**
+ * The function a bot script defines. It's called once per tick it has budget
+ * for; anything it returns is clamped, and a missing or broken result idles.
+ */
+export type BotBrain = (sensors: Readonly<BotSensors>) => Partial<BotCommand>;
+
+// Anyone on another team, the same as the built-in AI.
+const isEnemyOf = (self: RobotData, other: RobotData) => other.team !== self.team && !other.isDead;
+
+export const buildSensors = (world: World, self: RobotData): BotSensors => ({
+  time: world.time,
+  timeLeft: timeLeft(world.config, world.time),
+  tick: world.tick,
+  self: {
+    id: self.id,
+    type: self.type,
+    x: self.position.x,
+    z: self.position.z,
+    heading: self.rotation,
+    vx: self.velocity.x,
+    vz: self.velocity.z,
+    health: self.health,
+    maxHealth: self.maxHealth,
+    weaponActive: self.weaponActive,
+    weaponEnergy: self.weaponEnergy,
+    weaponCooldown: Math.max(0, self.weaponCooldownUntil - world.time),
+    subsystems: cloneSubsystems(self.subsystems),
+    effects: {
+      overdrive: Math.max(0, self[EFFECT_TIMERS.overdrive] - world.time),
+      shield: Math.max(0, self[EFFECT_TIMERS.shield] - world.time),
+      overcharge: Math.max(0, self[EFFECT_TIMERS.overcharge] - world.time)
+    }
+  },
+  enemies: world.robots.filter(r => isEnemyOf(self, r)).map(r => ({
+    id: r.id,
+    type: r.type,
+    x: r.position.x,
+    z: r.position.z,
+    heading: r.rotation,
+    health: r.health,
+    maxHealth: r.maxHealth
+  })),
+  pickups: world.pickups.map(p => ({ kind: p.kind, x: p.position[0], z: p.position[1] })),
+  arena: {
+    halfSize: world.arena.size / 2,
+    pits: openPits(world.arena, pitsReleased(world.config, world.time)).map(pit => pit.polygon),
+    pillars: world.arena.pillars,
+    hillRadius: world.rules.type === 'koth' ? world.config.hillRadius : null
+  }
+});
+
+const clampAxis = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(-1, Math.min(1, value)) : 0;
+
+/** Scripts can return anything; only well-formed fields get through. */
+export const sanitizeCommand = (value: unknown): BotCommand => {
+  if (!value || typeof value !== 'object') return { throttle: 0, turn: 0, weapon: false };
+  const { throttle, turn, weapon } = value as Record<string, unknown>;
+  return { throttle: clampAxis(throttle), turn: clampAxis(turn), weapon: weapon === true };
+};
@@ -0,0 +1,136 @@
+import { Camera, Vector3 } from 'three';
+import { RobotData } from '../types';
+import { SimEvent } from '../sim/events';
+import { FIXED_TIMESTEP, DIRECTOR_MIN_SHOT, DIRECTOR_HEAT_DECAY } from '../constants';
+
+// Eases the camera the same share of the way every sim tick, whatever the frame rate.
+const ease = (delta: number) => 1 - Math.pow(1 - 0.08, delta / FIXED_TIMESTEP);
+
+const poseOf = (robot: RobotData, alpha: number) => ({
+  x: robot.prevPosition.x + (robot.position.x - robot.prevPosition.x) * alpha,
+  z: robot.prevPosition.z + (robot.position.z - robot.prevPosition.z) * alpha,
+  rot: robot.prevRotation + (robot.rotation - robot.prevRotation) * alpha
+});
+
+// Chase: 10 units behind the robot's interpolated pose, 8 up. Tactical looks
+// straight down from high above, north-up, and never turns with the robot.
+export const followRobot = (camera: Camera, robot: RobotData, alpha: number, delta: number, mode: 'chase' | 'tactical') => {
+  const { x, z, rot } = poseOf(robot, alpha);
+  const cameraTarget = mode === 'tactical'
+    ? new Vector3(x, 24, z + 0.01)
+    : new Vector3(x - Math.sin(rot) * 10, 8, z - Math.cos(rot) * 10);
+  camera.position.lerp(cameraTarget, ease(delta));
+  camera.lookAt(x, 0.5, z);
+};
+
+/** Keeps a free-orbit camera's angle and distance while its pivot tracks the robot (or the arena centre). */
+export const orbitAround = (controls: { target: Vector3 }, camera: Camera, robot: RobotData | undefined, alpha: number) => {
+  const { x, z } = robot ? poseOf(robot, alpha) : { x: 0, z: 0 };
+  // Fresh controls still pivot on the origin; start them on the robot without moving the camera.
+  if (controls.target.y === 0) {
+    controls.target.set(x, 0.5, z);
+    return;
+  }
+  camera.position.x += x - controls.target.x;
+  camera.position.z += z - controls.target.z;
+  controls.target.set(x, 0.5, z);
+};
+
+// --- BROADCAST DIRECTOR ---
+
+// How "hot" each pairing is: hits and shoves between two robots add heat,
+// which fades with sim time.
+interface Heat {
+  value: number;
+  time: number;
+}
+
+export interface Director {
+  heat: Record<string, Heat>;
+  // The robots in the current shot, and when it was cut to.
+  shot: string[];
+  shotStart: number;
+}
+
+export const createDirector = (): Director => ({ heat: {}, shot: [], shotStart: -Infinity });
+
+const pairKey = (a: string, b: string) => a < b ? `${a}|${b}` : `${b}|${a}`;
+
+const heatOf = (director: Director, key: string, now: number) => {
+  const heat = director.heat[key];
+  // Heat from later than `now` is left over from before a rewind.
+  return heat && heat.time <= now ? heat.value * Math.exp(-(now - heat.time) / DIRECTOR_HEAT_DECAY) : 0;
+};
+
+const addHeat = (director: Director, a: string, b: string, amount: number, now: number) => {
+  const key = pairKey(a, b);
+  director.heat[key] = { value: heatOf(director, key, now) + amount, time: now };
+};
+
+export const observeEvents = (director: Director, events: SimEvent[]) => {
+  events.forEach(event => {
+    if (event.type === 'collision') addHeat(director, event.robotIds[0], event.robotIds[1], event.impulse * 4, event.time);
+    else if (event.type === 'damage' && event.sourceId) addHeat(director, event.targetId, event.sourceId, event.amount / 10, event.time);
+  });
+};
+
+const resetDirector = (director: Director) => {
+  director.heat = {};
+  director.shot = [];
+  director.shotStart = -Infinity;
+};
+
+// Close fights score even before anyone lands a hit.
+const scorePair = (director: Director, a: RobotData, b: RobotData, now: number) =>
+  heatOf(director, pairKey(a.id, b.id), now) + 1 / (1 + a.position.distanceTo(b.position));
+
+const pickShot = (director: Director, robots: RobotData[], now: number, lockId?: string): string[] => {
+  const alive = robots.filter(r => !r.isDead || r.id === lockId);
+  if (alive.length < 2) return alive.map(r => r.id);
+  let best: string[] = [], bestScore = -Infinity;
+  for (let i = 0; i < alive.length; i++) {
+    for (let j = i + 1; j < alive.length; j++) {
+      if (lockId && alive[i].id !== lockId && alive[j].id !== lockId) continue;
+      const score = scorePair(director, alive[i], alive[j], now);
+      if (score > bestScore) { bestScore = score; best = [alive[i].id, alive[j].id]; }
+    }
+  }
+  return best;
+};
+
+/**
+ * Frames the most active fight from the side. A shot holds for at least
+ * DIRECTOR_MIN_SHOT unless someone in it goes down, and a new shot is a hard
+ * cut rather than a pan. With `lockId` the shot always includes that robot.
+ */
+export const directShot = (director: Director, camera: Camera, robots: RobotData[], alpha: number, delta: number, now: number, lockId?: string) => {
+  // The sim clock went back (new match, replay seek, finale): start over.
+  if (now < director.shotStart) resetDirector(director);
+  const inShot = robots.filter(r => director.shot.includes(r.id));
+  const shotBroken = inShot.length !== director.shot.length || inShot.some(r => r.isDead && r.id !== lockId)
+    || (lockId !== undefined && !director.shot.includes(lockId));
+  let cut = false;
+  if (shotBroken || now - director.shotStart >= DIRECTOR_MIN_SHOT) {
+    const next = pickShot(director, robots, now, lockId);
+    if (next.join() !== director.shot.join()) {
+      director.shot = next;
+      director.shotStart = now;
+      cut = true;
+    }
+  }
+
+  const subjects = robots.filter(r => director.shot.includes(r.id)).map(r => poseOf(r, alpha));
+  if (subjects.length === 0) return;
+  const mid = subjects.reduce((m, p) => ({ x: m.x + p.x / subjects.length, z: m.z + p.z / subjects.length }), { x: 0, z: 0 });
+  const [a, b = a] = subjects;
+  const spread = Math.hypot(b.x - a.x, b.z - a.z);
+  // Side-on to the line between the fighters, on whichever side the camera already is.
+  let sideX = spread > 0.01 ? -(b.z - a.z) / spread : Math.sin(a.rot);
+  let sideZ = spread > 0.01 ? (b.x - a.x) / spread : Math.cos(a.rot);
+  if ((camera.position.x - mid.x) * sideX + (camera.position.z - mid.z) * sideZ < 0) { sideX = -sideX; sideZ = -sideZ; }
+  const distance = 7 + spread * 0.8;
+  const cameraTarget = new Vector3(mid.x + sideX * distance, 3 + spread * 0.4, mid.z + sideZ * distance);
+  if (cut) camera.position.copy(cameraTarget);
+  else camera.position.lerp(cameraTarget, ease(delta));
+  camera.lookAt(mid.x, 0.5, mid.z);
+};
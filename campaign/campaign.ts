@@ -0,0 +1,47 @@
+import { CampaignRun, Loadout } from '../types';
+import { CAMPAIGN_ROUNDS, CAMPAIGN_REPAIR_PER_WIN, CAMPAIGN_STORAGE_KEY } from '../constants';
+import { loadJson, saveJson, removeJson } from '../settings/storage';
+import { isLoadout } from '../garage/loadout';
+import { resolveStats, maxHealthFor } from '../sim/stats';
+
+export const maxHullFor = (loadout: Loadout) => maxHealthFor(resolveStats(loadout.type, loadout.allocation));
+
+export const startRun = (loadout: Loadout): CampaignRun => ({
+  loadout,
+  round: 0,
+  hull: maxHullFor(loadout),
+  repairBudget: 0
+});
+
+export const currentRound = (run: CampaignRun) => CAMPAIGN_ROUNDS[run.round];
+
+export const isFinalRound = (run: CampaignRun) => run.round === CAMPAIGN_ROUNDS.length - 1;
+
+/** Banks the surviving hull and the win bonus, and advances to the next round. */
+export const completeRound = (run: CampaignRun, hull: number): CampaignRun => ({
+  ...run,
+  round: run.round + 1,
+  hull: Math.max(1, Math.ceil(hull)),
+  repairBudget: run.repairBudget + CAMPAIGN_REPAIR_PER_WIN
+});
+
+/** Spends up to `amount` of the repair budget, never past full hull. */
+export const repairHull = (run: CampaignRun, amount: number): CampaignRun => {
+  const spend = Math.min(amount, run.repairBudget, maxHullFor(run.loadout) - run.hull);
+  return spend > 0 ? { ...run, hull: run.hull + spend, repairBudget: run.repairBudget - spend } : run;
+};
+
+const isRun = (value: unknown): value is CampaignRun => {
+  if (!value || typeof value !== 'object') return false;
+  const { loadout, round, hull, repairBudget } = value as Partial<CampaignRun>;
+  return isLoadout(loadout) &&
+    Number.isInteger(round) && round! >= 0 && round! < CAMPAIGN_ROUNDS.length &&
+    typeof hull === 'number' && hull > 0 && hull <= maxHullFor(loadout) &&
+    typeof repairBudget === 'number' && repairBudget >= 0;
+};
+
+export const loadRun = (): CampaignRun | null => loadJson(CAMPAIGN_STORAGE_KEY, isRun);
+
+export const saveRun = (run: CampaignRun) => saveJson(CAMPAIGN_STORAGE_KEY, run);
+
+export const clearRun = () => removeJson(CAMPAIGN_STORAGE_KEY);
@@ -0,0 +1,193 @@
+import { writeFileSync } from 'node:fs';
+import { BatchConfig, BatchResult, BatchBot, runBatch } from '../sim/batch';
+import { GameConfigError, resolveGameConfig } from '../sim/config';
+import { ARENAS } from '../arenas';
+import { DEFAULT_GAME_CONFIG } from '../constants';
+import { RobotType, Difficulty, GameConfig, GameConfigOverrides } from '../types';
+
+// Headless bot-vs-bot balancing runs. Nothing is rendered; matches step the
+// same deterministic sim the game uses, so a seed always gives the same result.
+//
+//   npm run batch -- tank spinner                      # 100 matches, 1v1
+//   npm run batch -- tank wedge/tank spinner -n 500    # wedge chassis, tank AI
+//   npm run batch -- tank spinner --set knockbackForce=0.2 --format json
+//   npm run batch -- tank spinner --set chassisMass.tank=2
+//
+// `--set` overrides a GameConfig field (DEFAULT_GAME_CONFIG in constants.ts)
+// for this run; compare two runs with different --set values to A/B a change.
+
+type Format = 'table' | 'json' | 'csv';
+
+interface CliOptions extends Omit<BatchConfig, 'gameConfig'> {
+  overrides: GameConfigOverrides;
+  format: Format;
+  out: string | null;
+}
+
+const USAGE = `Usage: npm run batch -- <bot> <bot> [...bots] [options]
+
+  <bot>               chassis, or chassis/controller (spinner, wedge, tank)
+
+Options:
+  -n, --matches N     matches to play (default 100)
+  --seed N            base seed; match i uses seed + i (default 1)
+  --arena ID          arena id (default classic)
+  --difficulty D      easy | normal | hard (default normal)
+  --max-time S        sim seconds before a match is a draw (default 120)
+  --set PATH=VALUE    override a config field, e.g. friction or chassisMass.tank (repeatable)
+  --format F          table | json | csv (default table)
+  --out FILE          write the report to FILE instead of stdout
+  --list              print every config field and its default
+  -h, --help          show this help`;
+
+const CHASSIS: RobotType[] = ['spinner', 'wedge', 'tank'];
+const DIFFICULTIES: Difficulty[] = ['easy', 'normal', 'hard'];
+const FORMATS: Format[] = ['table', 'json', 'csv'];
+
+class UsageError extends Error {}
+
+const isChassis = (value: string): value is RobotType => (CHASSIS as string[]).includes(value);
+
+const parseBot = (arg: string): BatchBot => {
+  const [chassis, controller = chassis] = arg.split('/');
+  if (!isChassis(chassis) || !isChassis(controller)) throw new UsageError(`Unknown bot "${arg}"`);
+  return { chassis, controller };
+};
+
+const parseNumber = (flag: string, value: string | undefined) => {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) throw new UsageError(`${flag} needs a number`);
+  return n;
+};
+
+const parseArgs = (args: string[]): CliOptions | 'list' => {
+  const options: CliOptions = {
+    bots: [], matches: 100, seed: 1, arenaId: 'classic', difficulty: 'normal', maxTime: 120, overrides: {}, format: 'table', out: null
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      if (i + 1 >= args.length) throw new UsageError(`${arg} needs a value`);
+      return args[++i];
+    };
+    switch (arg) {
+      case '--list': return 'list';
+      case '-n': case '--matches': options.matches = Math.max(1, Math.floor(parseNumber(arg, value()))); break;
+      case '--seed': options.seed = Math.floor(parseNumber(arg, value())); break;
+      case '--arena': options.arenaId = value(); break;
+      case '--max-time': options.maxTime = parseNumber(arg, value()); break;
+      case '--out': options.out = value(); break;
+      case '--difficulty': {
+        const d = value();
+        if (!(DIFFICULTIES as string[]).includes(d)) throw new UsageError(`Unknown difficulty "${d}"`);
+        options.difficulty = d as Difficulty;
+        break;
+      }
+      case '--format': {
+        const f = value();
+        if (!(FORMATS as string[]).includes(f)) throw new UsageError(`Unknown format "${f}"`);
+        options.format = f as Format;
+        break;
+      }
+      case '--set': {
+        const [path, raw] = value().split('=');
+        setOverride(options.overrides, path, parseNumber(`--set ${path}`, raw));
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+        options.bots.push(parseBot(arg));
+    }
+  }
+  if (options.bots.length < 2) throw new UsageError('Give at least two bots');
+  return options;
+};
+
+// KNOCKBACK_FORCE-style names are accepted too, since that's how the old constants read.
+const toConfigKey = (name: string) =>
+  /^[A-Z0-9_]+$/.test(name) ? name.toLowerCase().replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase()) : name;
+
+const setOverride = (overrides: GameConfigOverrides, path: string, value: number) => {
+  const [key, sub] = path.split('.').map(toConfigKey) as [keyof GameConfig, string | undefined];
+  const base = DEFAULT_GAME_CONFIG[key];
+  if (base === undefined) throw new UsageError(`Unknown config "${path}" (see --list)`);
+  if (typeof base === 'number') {
+    if (sub) throw new UsageError(`Config "${key}" has no fields`);
+    (overrides as Record<string, unknown>)[key] = value;
+    return;
+  }
+  if (!sub || !(sub in base)) throw new UsageError(`Use ${key}.<${Object.keys(base).join('|')}>`);
+  (overrides as Record<string, Record<string, number>>)[key] = { ...(overrides[key] as object), [sub]: value };
+};
+
+const flattenConfig = (config: GameConfig) => {
+  const flat: Record<string, number> = {};
+  Object.entries(config).forEach(([key, value]) => {
+    if (typeof value === 'number') flat[key] = value;
+    else Object.entries(value as Record<string, number>).forEach(([sub, n]) => { flat[`${key}.${sub}`] = n; });
+  });
+  return flat;
+};
+
+const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+const formatTable = (result: BatchResult) => {
+  const rows = [
+    ['BOT', 'WINS', 'WIN RATE', 'RINGED OUT', 'DESTROYED'],
+    ...result.bots.map(b => [b.label, String(b.wins), percent(b.winRate), String(b.ringedOut), String(b.destroyed)])
+  ];
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+  const lines = rows.map(row => row.map((cell, col) => cell.padEnd(widths[col])).join('  '));
+  lines.splice(1, 0, widths.map(w => '-'.repeat(w)).join('  '));
+  return [
+    ...lines,
+    '',
+    `matches ${result.matches}  draws ${result.draws} (${result.timeouts} timed out)  avg length ${result.averageLength.toFixed(1)}s`,
+    `eliminations: ${result.ringOuts} ring-outs / ${result.kos} KOs (${percent(result.ringOutShare)} ring-outs)`
+  ].join('\n');
+};
+
+// One row per bot; the batch-wide figures repeat on every row so the file loads as a single table.
+const formatCsv = (result: BatchResult) => [
+  'bot,chassis,controller,wins,win_rate,ringed_out,destroyed,matches,draws,timeouts,avg_length,ring_out_share',
+  ...result.bots.map(b => [
+    b.label, b.chassis, b.controller, b.wins, b.winRate.toFixed(4), b.ringedOut, b.destroyed,
+    result.matches, result.draws, result.timeouts, result.averageLength.toFixed(3), result.ringOutShare.toFixed(4)
+  ].join(','))
+].join('\n');
+
+const main = () => {
+  const args = process.argv.slice(2);
+  if (args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return;
+  }
+  const options = parseArgs(args);
+  if (options === 'list') {
+    Object.entries(flattenConfig(DEFAULT_GAME_CONFIG)).forEach(([path, value]) => console.log(`${path.padEnd(22)} ${value}`));
+    return;
+  }
+  if (!ARENAS.some(a => a.id === options.arenaId)) {
+    throw new UsageError(`Unknown arena "${options.arenaId}" (${ARENAS.map(a => a.id).join(', ')})`);
+  }
+
+  const { format, out, ...run } = options;
+  const result = runBatch({ ...run, gameConfig: resolveGameConfig(run.overrides) });
+  const report = format === 'json'
+    ? JSON.stringify({ config: run, result }, null, 2)
+    : format === 'csv' ? formatCsv(result) : formatTable(result);
+  if (out) writeFileSync(out, `${report}\n`);
+  else console.log(report);
+};
+
+try {
+  main();
+} catch (err) {
+  if (err instanceof UsageError || err instanceof GameConfigError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+  } else {
+    console.error(err);
+  }
+  process.exit(1);
+}
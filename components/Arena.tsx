@@ -1,83 +1,247 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Group, Mesh, Shape } from 'three';
+import { ArenaDefinition, PickupKind, PitZone } from '../types';
+import { ROBOT_COLORS, PICKUP_COLORS, PICKUP_RADIUS, HUD_REFRESH_MS } from '../constants';
+import { isVentActive, hammerLift } from '../sim/arena';
+import { WorldStore } from '../store/worldStore';
+import { useWorldSnapshot } from '../hooks/useWorldSnapshot';
 
-import React from 'react';
-import { ARENA_SIZE, WALL_GAP, ROBOT_COLORS } from '../constants';
+const DEFAULT_WALL_THICKNESS = 0.5;
+const DEFAULT_WALL_HEIGHT = 2;
 
-export const Arena: React.FC = () => {
-  const wallWidth = ARENA_SIZE - WALL_GAP * 2;
+const PickupShape: React.FC<{ kind: PickupKind }> = ({ kind }) => {
+  const material = <meshStandardMaterial color={PICKUP_COLORS[kind]} emissive={PICKUP_COLORS[kind]} emissiveIntensity={0.6} flatShading />;
+  if (kind === 'repair') {
+    return (
+      <group>
+        <mesh castShadow><boxGeometry args={[PICKUP_RADIUS * 1.4, PICKUP_RADIUS * 0.45, PICKUP_RADIUS * 0.45]} />{material}</mesh>
+        <mesh castShadow><boxGeometry args={[PICKUP_RADIUS * 0.45, PICKUP_RADIUS * 1.4, PICKUP_RADIUS * 0.45]} />{material}</mesh>
+      </group>
+    );
+  }
+  if (kind === 'overdrive') return <mesh castShadow rotation={[Math.PI / 2, 0, 0]}><coneGeometry args={[PICKUP_RADIUS * 0.6, PICKUP_RADIUS * 1.4, 4]} />{material}</mesh>;
+  if (kind === 'shield') return <mesh castShadow><torusGeometry args={[PICKUP_RADIUS * 0.6, PICKUP_RADIUS * 0.2, 6, 12]} />{material}</mesh>;
+  return <mesh castShadow><octahedronGeometry args={[PICKUP_RADIUS * 0.8, 0]} />{material}</mesh>;
+};
+
+// Pickups come and go a few times a match, so these re-render on the HUD's
+// throttle rather than per frame; only the bob and spin run in useFrame.
+const Pickups: React.FC<{ store: WorldStore; time: React.MutableRefObject<number> }> = ({ store, time }) => {
+  const { pickups } = useWorldSnapshot(store, HUD_REFRESH_MS);
+  const floatRefs = useRef<(Group | null)[]>([]);
+
+  useFrame(() => {
+    floatRefs.current.forEach((ref, i) => {
+      if (!ref) return;
+      ref.position.y = 0.7 + Math.sin(time.current * 3 + i) * 0.15;
+      ref.rotation.y = time.current * 2;
+    });
+  });
+
+  return (
+    <>
+      {pickups.map((pickup, i) => (
+        <group key={pickup.id} position={[pickup.position[0], 0, pickup.position[1]]}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, 0]}>
+            <ringGeometry args={[PICKUP_RADIUS * 0.9, PICKUP_RADIUS * 1.2, 24]} />
+            <meshBasicMaterial color={PICKUP_COLORS[pickup.kind]} transparent opacity={0.6} />
+          </mesh>
+          <group ref={el => { floatRefs.current[i] = el; }}>
+            <PickupShape kind={pickup.kind} />
+          </group>
+        </group>
+      ))}
+    </>
+  );
+};
+
+// `time` is the sim clock, so hazards animate in step with what the simulation applies.
+// Shapes live in the XY plane; the mesh is rotated flat so shape y maps to world -z.
+const pitShape = (pit: PitZone) => {
+  const shape = new Shape();
+  pit.polygon.forEach(([x, z], i) => i === 0 ? shape.moveTo(x, -z) : shape.lineTo(x, -z));
+  return shape;
+};
+
+interface ArenaProps {
+  arena: ArenaDefinition;
+  store: WorldStore;
+  time: React.MutableRefObject<number>;
+  // Set in king of the hill to mark the zone at the centre.
+  hillRadius: number | null;
+  // Sim time the release pits open; null leaves them out.
+  releaseAt: number | null;
+}
+
+export const Arena: React.FC<ArenaProps> = ({ arena, store, time, hillRadius, releaseAt }) => {
+  const spinnerRefs = useRef<(Group | null)[]>([]);
+  const ventRefs = useRef<(Group | null)[]>([]);
+  const hammerRefs = useRef<(Group | null)[]>([]);
+
+  const releaseRefs = useRef<(Mesh | null)[]>([]);
+  const hatchRefs = useRef<(Mesh | null)[]>([]);
+
+  const pitShapes = useMemo(() => arena.pits.map(pitShape), [arena]);
+  const releaseShapes = useMemo(() => arena.releasePits.map(pitShape), [arena]);
+
+  useFrame(() => {
+    const now = time.current;
+    arena.spinners.forEach((spinner, i) => {
+      const ref = spinnerRefs.current[i];
+      if (ref) ref.rotation.y = spinner.speed * now;
+    });
+    arena.vents.forEach((vent, i) => {
+      const ref = ventRefs.current[i];
+      if (ref) ref.visible = isVentActive(vent, now);
+    });
+    arena.hammers.forEach((hammer, i) => {
+      const ref = hammerRefs.current[i];
+      if (ref) ref.rotation.x = -hammerLift(hammer, now) * Math.PI / 2;
+    });
+    const open = releaseAt !== null && now >= releaseAt;
+    releaseRefs.current.forEach(ref => { if (ref) ref.visible = open; });
+    hatchRefs.current.forEach(ref => { if (ref) ref.visible = !open; });
+  });
 
   return (
     <group>
       {/* Concrete Floor */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow position={[0, -0.01, 0]}>
-        <planeGeometry args={[ARENA_SIZE, ARENA_SIZE]} />
+        <planeGeometry args={[arena.size, arena.size]} />
         <meshStandardMaterial color={ROBOT_COLORS.ARENA} roughness={0.7} metalness={0.2} />
       </mesh>
 
       {/* Grid Lines */}
-      <gridHelper args={[ARENA_SIZE, 12, '#64748b', '#cbd5e1']} position={[0, 0.01, 0]} />
+      <gridHelper args={[arena.size, 12, '#64748b', '#cbd5e1']} position={[0, 0.01, 0]} />
 
-      {/* Corner "Pit" Indicators */}
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={[x * (ARENA_SIZE/2 - WALL_GAP/2), 0.02, z * (ARENA_SIZE/2 - WALL_GAP/2)]}>
-          <planeGeometry args={[WALL_GAP, WALL_GAP]} />
+      {/* Pits */}
+      {pitShapes.map((shape, i) => (
+        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]}>
+          <shapeGeometry args={[shape]} />
           <meshStandardMaterial color="#1e293b" emissive="#ef4444" emissiveIntensity={0.5} />
         </mesh>
       ))}
 
-      {/* Side Walls */}
-      {/* North */}
-      <mesh position={[0, 1, -ARENA_SIZE / 2]}>
-        <boxGeometry args={[wallWidth, 2, 0.5]} />
-        <meshStandardMaterial color={ROBOT_COLORS.WALL} />
-      </mesh>
-      {/* South */}
-      <mesh position={[0, 1, ARENA_SIZE / 2]}>
-        <boxGeometry args={[wallWidth, 2, 0.5]} />
-        <meshStandardMaterial color={ROBOT_COLORS.WALL} />
-      </mesh>
-      {/* West */}
-      <mesh position={[-ARENA_SIZE / 2, 1, 0]}>
-        <boxGeometry args={[0.5, 2, wallWidth]} />
-        <meshStandardMaterial color={ROBOT_COLORS.WALL} />
-      </mesh>
-      {/* East */}
-      <mesh position={[ARENA_SIZE / 2, 1, 0]}>
-        <boxGeometry args={[0.5, 2, wallWidth]} />
-        <meshStandardMaterial color={ROBOT_COLORS.WALL} />
-      </mesh>
+      {/* Release pits: shut hatches until the pit release */}
+      {releaseAt !== null && releaseShapes.map((shape, i) => (
+        <group key={i}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} ref={el => { hatchRefs.current[i] = el; }}>
+            <shapeGeometry args={[shape]} />
+            <meshStandardMaterial color="#475569" metalness={0.6} roughness={0.4} />
+          </mesh>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} visible={false} ref={el => { releaseRefs.current[i] = el; }}>
+            <shapeGeometry args={[shape]} />
+            <meshStandardMaterial color="#1e293b" emissive="#ef4444" emissiveIntensity={0.5} />
+          </mesh>
+        </group>
+      ))}
 
-      {/* Hazard Stripes along walls */}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, -ARENA_SIZE / 2 + 0.4]}>
-        <planeGeometry args={[wallWidth, 0.4]} />
-        <meshStandardMaterial color="#fbbf24" />
-      </mesh>
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, ARENA_SIZE / 2 - 0.4]}>
-        <planeGeometry args={[wallWidth, 0.4]} />
-        <meshStandardMaterial color="#fbbf24" />
-      </mesh>
-      <mesh rotation={[-Math.PI / 2, 0, Math.PI/2]} position={[-ARENA_SIZE / 2 + 0.4, 0.03, 0]}>
-        <planeGeometry args={[wallWidth, 0.4]} />
-        <meshStandardMaterial color="#fbbf24" />
-      </mesh>
-      <mesh rotation={[-Math.PI / 2, 0, Math.PI/2]} position={[ARENA_SIZE / 2 - 0.4, 0.03, 0]}>
-        <planeGeometry args={[wallWidth, 0.4]} />
-        <meshStandardMaterial color="#fbbf24" />
-      </mesh>
+      {/* Sloped zones */}
+      {arena.slopes.map((slope, i) => (
+        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={[(slope.min[0] + slope.max[0]) / 2, 0.015, (slope.min[1] + slope.max[1]) / 2]}>
+          <planeGeometry args={[slope.max[0] - slope.min[0], slope.max[1] - slope.min[1]]} />
+          <meshStandardMaterial color="#94a3b8" transparent opacity={0.6} />
+        </mesh>
+      ))}
+
+      {/* King of the hill zone */}
+      {hillRadius !== null && (
+        <group position={[0, 0.018, 0]}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]}>
+            <circleGeometry args={[hillRadius, 48]} />
+            <meshStandardMaterial color="#fbbf24" transparent opacity={0.25} />
+          </mesh>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.005, 0]}>
+            <ringGeometry args={[hillRadius - 0.15, hillRadius, 48]} />
+            <meshStandardMaterial color="#fbbf24" />
+          </mesh>
+        </group>
+      )}
+
+      {/* Walls with hazard stripes on the arena side */}
+      {arena.walls.map((wall, i) => {
+        const [ax, az] = wall.from, [bx, bz] = wall.to;
+        const length = Math.hypot(bx - ax, bz - az);
+        const thickness = wall.thickness ?? DEFAULT_WALL_THICKNESS;
+        const height = wall.height ?? DEFAULT_WALL_HEIGHT;
+        const angle = -Math.atan2(bz - az, bx - ax);
+        const inward = Math.sign(-((ax + bx) / 2 * -(bz - az) + (az + bz) / 2 * (bx - ax))) || 1;
+        return (
+          <group key={i} position={[(ax + bx) / 2, 0, (az + bz) / 2]} rotation={[0, angle, 0]}>
+            <mesh position={[0, height / 2, 0]}>
+              <boxGeometry args={[length, height, thickness]} />
+              <meshStandardMaterial color={ROBOT_COLORS.WALL} />
+            </mesh>
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.03, inward * 0.4]}>
+              <planeGeometry args={[length, 0.4]} />
+              <meshStandardMaterial color="#fbbf24" />
+            </mesh>
+          </group>
+        );
+      })}
 
       {/* Industrial Support Structures */}
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} position={[x * (ARENA_SIZE/2 - WALL_GAP), 1.5, z * ARENA_SIZE/2]}>
+      {arena.pillars.map(([x, z], i) => (
+        <mesh key={i} position={[x, 1.5, z]}>
           <boxGeometry args={[0.8, 3, 0.8]} />
           <meshStandardMaterial color="#991b1b" />
         </mesh>
       ))}
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} position={[x * ARENA_SIZE/2, 1.5, z * (ARENA_SIZE/2 - WALL_GAP)]}>
-          <boxGeometry args={[0.8, 3, 0.8]} />
-          <meshStandardMaterial color="#991b1b" />
-        </mesh>
+
+      {/* Floor spinners */}
+      {arena.spinners.map((spinner, i) => (
+        <group key={i} position={[spinner.position[0], 0.025, spinner.position[1]]} ref={el => { spinnerRefs.current[i] = el; }}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]}>
+            <circleGeometry args={[spinner.radius, 32]} />
+            <meshStandardMaterial color="#475569" metalness={0.6} roughness={0.4} />
+          </mesh>
+          <mesh position={[0, 0.01, 0]}>
+            <boxGeometry args={[spinner.radius * 2, 0.02, 0.3]} />
+            <meshStandardMaterial color="#fbbf24" />
+          </mesh>
+        </group>
       ))}
 
+      {/* Flame vents */}
+      {arena.vents.map((vent, i) => (
+        <group key={i} position={[vent.position[0], 0, vent.position[1]]}>
+          <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.025, 0]}>
+            <circleGeometry args={[vent.radius, 24]} />
+            <meshStandardMaterial color="#0f172a" />
+          </mesh>
+          <group ref={el => { ventRefs.current[i] = el; }} visible={false}>
+            <mesh position={[0, 0.75, 0]}>
+              <coneGeometry args={[vent.radius * 0.8, 1.5, 12]} />
+              <meshStandardMaterial color="#f97316" emissive="#ef4444" emissiveIntensity={1} transparent opacity={0.75} />
+            </mesh>
+          </group>
+        </group>
+      ))}
+
+      {/* Hammers: the arm pivots at its base and slams down along `rotation` */}
+      {arena.hammers.map((hammer, i) => (
+        <group key={i} position={[hammer.position[0], 0, hammer.position[1]]} rotation={[0, hammer.rotation, 0]}>
+          <mesh position={[0, 0.4, 0]}>
+            <boxGeometry args={[1, 0.8, 1]} />
+            <meshStandardMaterial color="#334155" />
+          </mesh>
+          <group position={[0, 0.4, 0]} ref={el => { hammerRefs.current[i] = el; }}>
+            <mesh position={[0, 0, hammer.reach / 2]}>
+              <boxGeometry args={[0.25, 0.25, hammer.reach]} />
+              <meshStandardMaterial color="#64748b" />
+            </mesh>
+            <mesh position={[0, 0, hammer.reach - 0.4]}>
+              <boxGeometry args={[hammer.width, 0.6, 0.8]} />
+              <meshStandardMaterial color="#991b1b" />
+            </mesh>
+          </group>
+        </group>
+      ))}
+
+      {/* Pickups */}
+      <Pickups store={store} time={time} />
+
       {/* Outer Void (Now a lighter grey room look) */}
       <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -5, 0]}>
         <planeGeometry args={[200, 200]} />
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { Gamepad2, Keyboard } from 'lucide-react';
+import { BindingProfiles, ControlAction, PlayerBinding } from '../types';
+import { CONTROL_ACTIONS, formatKeyCode, getDefaultBindings } from '../input/bindings';
+import { getGamepads } from '../input/controls';
+
+interface BindingsScreenProps {
+  bindings: BindingProfiles;
+  onSave: (bindings: BindingProfiles) => void;
+  onClose: () => void;
+}
+
+type ProfileId = 'solo' | 'p1' | 'p2';
+
+type Capture =
+  | { kind: 'key'; action: ControlAction; slot: number }
+  | { kind: 'button' };
+
+const PROFILES: { id: ProfileId; label: string }[] = [
+  { id: 'solo', label: '1 PLAYER' },
+  { id: 'p1', label: 'VERSUS P1' },
+  { id: 'p2', label: 'VERSUS P2' }
+];
+
+const MAX_PADS = 4;
+
+const getProfile = (bindings: BindingProfiles, id: ProfileId) =>
+  id === 'solo' ? bindings.solo : bindings.versus[id === 'p1' ? 0 : 1];
+
+const withProfile = (bindings: BindingProfiles, id: ProfileId, profile: PlayerBinding): BindingProfiles => {
+  if (id === 'solo') return { ...bindings, solo: profile };
+  const versus: [PlayerBinding, PlayerBinding] = [...bindings.versus];
+  versus[id === 'p1' ? 0 : 1] = profile;
+  return { ...bindings, versus };
+};
+
+export const BindingsScreen: React.FC<BindingsScreenProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(bindings);
+  const [profileId, setProfileId] = useState<ProfileId>('solo');
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [pads, setPads] = useState<(Gamepad | null)[]>(getGamepads);
+  const profile = getProfile(draft, profileId);
+
+  const updateProfile = (next: PlayerBinding) => setDraft(prev => withProfile(prev, profileId, next));
+
+  useEffect(() => {
+    const refresh = () => setPads(getGamepads());
+    window.addEventListener('gamepadconnected', refresh);
+    window.addEventListener('gamepaddisconnected', refresh);
+    return () => {
+      window.removeEventListener('gamepadconnected', refresh);
+      window.removeEventListener('gamepaddisconnected', refresh);
+    };
+  }, []);
+
+  // Key capture: next keydown becomes the binding, Escape cancels, Backspace clears the slot.
+  useEffect(() => {
+    if (capture?.kind !== 'key') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      setCapture(null);
+      if (e.code === 'Escape') return;
+      const codes = [...profile.keyboard[capture.action]];
+      if (e.code === 'Backspace') codes.splice(capture.slot, 1);
+      else codes[capture.slot] = e.code;
+      updateProfile({ ...profile, keyboard: { ...profile.keyboard, [capture.action]: codes.filter(Boolean) } });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [capture, profile]);
+
+  // Button capture: poll the assigned pad until any button goes down.
+  useEffect(() => {
+    if (capture?.kind !== 'button' || profile.gamepad.index === null) return;
+    const index = profile.gamepad.index;
+    let frame = requestAnimationFrame(function poll() {
+      const pad = getGamepads()[index];
+      const pressed = pad?.buttons.findIndex(b => b.pressed) ?? -1;
+      if (pressed >= 0) {
+        setCapture(null);
+        updateProfile({ ...profile, gamepad: { ...profile.gamepad, weaponButton: pressed } });
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [capture, profile]);
+
+  const cyclePad = () => {
+    const current = profile.gamepad.index;
+    const index = current === null ? 0 : current + 1 < MAX_PADS ? current + 1 : null;
+    updateProfile({ ...profile, gamepad: { ...profile.gamepad, index } });
+  };
+
+  const padName = (index: number | null) => {
+    if (index === null) return 'NONE';
+    const pad = pads[index];
+    return `PAD ${index + 1}${pad ? ` // ${pad.id.slice(0, 24)}` : ' // NOT CONNECTED'}`;
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-100/90 backdrop-blur-md pointer-events-auto">
+      <div className="w-[44rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-6xl font-bold mb-6 tracking-tighter text-slate-900 italic">Controls</h2>
+
+        {/* Profile Tabs */}
+        <div className="flex gap-2 mb-6 text-xl font-bold">
+          {PROFILES.map(p => (
+            <button
+              key={p.id}
+              onClick={() => { setProfileId(p.id); setCapture(null); }}
+              className={`px-4 py-1 border-4 border-slate-900 ${profileId === p.id ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Keyboard */}
+        <div className="flex items-center gap-2 text-lg text-slate-500 mb-2"><Keyboard size={18} /> KEYBOARD</div>
+        <div className="space-y-2 mb-6 text-xl">
+          {CONTROL_ACTIONS.map(action => (
+            <div key={action} className="flex items-center gap-3">
+              <span className="w-28 text-slate-800 font-bold">{action}</span>
+              {[0, 1].map(slot => {
+                const active = capture?.kind === 'key' && capture.action === action && capture.slot === slot;
+                const code = profile.keyboard[action][slot];
+                return (
+                  <button
+                    key={slot}
+                    onClick={() => setCapture({ kind: 'key', action, slot })}
+                    className={`flex-1 px-3 py-1 border-2 border-slate-900 text-left ${active ? 'bg-blue-600 text-white animate-pulse' : 'hover:bg-slate-200'}`}
+                  >
+                    {active ? 'PRESS A KEY...' : code ? formatKeyCode(code) : '—'}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {/* Gamepad */}
+        <div className="flex items-center gap-2 text-lg text-slate-500 mb-2"><Gamepad2 size={18} /> GAMEPAD // LEFT STICK DRIVES</div>
+        <div className="space-y-2 mb-8 text-xl">
+          <div className="flex items-center gap-3">
+            <span className="w-28 text-slate-800 font-bold">device</span>
+            <button onClick={cyclePad} className="flex-1 px-3 py-1 border-2 border-slate-900 text-left hover:bg-slate-200">{padName(profile.gamepad.index)}</button>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="w-28 text-slate-800 font-bold">weapon</span>
+            <button
+              onClick={() => setCapture({ kind: 'button' })}
+              disabled={profile.gamepad.index === null}
+              className={`flex-1 px-3 py-1 border-2 border-slate-900 text-left disabled:opacity-40 ${capture?.kind === 'button' ? 'bg-blue-600 text-white animate-pulse' : 'hover:bg-slate-200'}`}
+            >
+              {capture?.kind === 'button' ? 'PRESS A BUTTON...' : `BUTTON ${profile.gamepad.weaponButton}`}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-between text-2xl font-bold">
+          <button onClick={() => { setDraft(getDefaultBindings()); setCapture(null); }} className="px-6 py-2 text-slate-600 hover:text-red-600">RESET DEFAULTS</button>
+          <div className="flex gap-4">
+            <button onClick={onClose} className="px-6 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">CANCEL</button>
+            <button onClick={() => onSave(draft)} className="px-6 py-2 bg-slate-900 text-white hover:bg-blue-600 shadow-[4px_4px_0px_#94a3b8]">SAVE</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { FileCode, X } from 'lucide-react';
+import { BotScript } from '../bots/scripts';
+import { checkScript } from '../bots/brainHost';
+
+export interface ScriptSlot {
+  robotId: string;
+  label: string;
+  // What drives the robot when no script is loaded.
+  fallback: string;
+}
+
+interface BotScriptsScreenProps {
+  slots: ScriptSlot[];
+  scripts: Record<string, BotScript>;
+  onChange: (robotId: string, script: BotScript | null) => void;
+  onClose: () => void;
+}
+
+export const BotScriptsScreen: React.FC<BotScriptsScreenProps> = ({ slots, scripts, onChange, onClose }) => {
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [checking, setChecking] = useState<string | null>(null);
+
+  const load = async (robotId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setChecking(robotId);
+    const source = await file.text();
+    const error = await checkScript(source);
+    setChecking(null);
+    setErrors(prev => ({ ...prev, [robotId]: error ?? '' }));
+    if (!error) onChange(robotId, { name: file.name, source });
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[48rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-2 tracking-tighter text-slate-900 italic">Bot Scripts</h2>
+        <p className="text-xl text-slate-500 mb-6">A script defines <span className="normal-case">brain(sensors)</span> and returns throttle, turn and weapon. Empty slots use the keyboard or built-in AI.</p>
+
+        <div className="space-y-3 mb-8 text-2xl">
+          {slots.map(slot => {
+            const script = scripts[slot.robotId];
+            const error = errors[slot.robotId];
+            return (
+              <div key={slot.robotId} className="p-3 border-4 border-slate-900">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="w-40 font-bold text-slate-900">{slot.label}</span>
+                  <span className={`flex-1 truncate normal-case ${script ? 'text-blue-600' : 'text-slate-400'}`}>
+                    {checking === slot.robotId ? 'Checking…' : script ? script.name : slot.fallback}
+                  </span>
+                  <label className="flex items-center gap-2 px-4 py-1 border-2 border-slate-900 text-slate-700 hover:bg-slate-200 cursor-pointer">
+                    <FileCode size={18} /> LOAD
+                    <input type="file" accept=".js,text/javascript" onChange={(e) => load(slot.robotId, e)} className="hidden" />
+                  </label>
+                  <button disabled={!script} onClick={() => onChange(slot.robotId, null)} className="p-1 border-2 border-slate-900 text-slate-700 hover:bg-slate-200 disabled:opacity-30">
+                    <X size={18} />
+                  </button>
+                </div>
+                {error && <p className="mt-2 text-lg text-red-600 normal-case">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end text-3xl font-bold">
+          <button onClick={onClose} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">DONE</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Check, Lock, Swords } from 'lucide-react';
+import { CampaignRun } from '../types';
+import { CAMPAIGN_ROUNDS } from '../constants';
+import { getArena } from '../arenas';
+import { maxHullFor } from '../campaign/campaign';
+
+interface BracketScreenProps {
+  run: CampaignRun;
+  onFight: () => void;
+  onAbandon: () => void;
+  onBack: () => void;
+}
+
+export const BracketScreen: React.FC<BracketScreenProps> = ({ run, onFight, onAbandon, onBack }) => {
+  const maxHull = maxHullFor(run.loadout);
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[48rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-6 tracking-tighter text-slate-900 italic">Bracket</h2>
+
+        <div className="space-y-3 mb-6">
+          {CAMPAIGN_ROUNDS.map((round, i) => {
+            const state = i < run.round ? 'won' : i === run.round ? 'next' : 'locked';
+            return (
+              <div
+                key={round.name}
+                className={`flex items-center gap-4 p-3 border-4 ${state === 'next' ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-300 text-slate-500'}`}
+              >
+                <span className="w-8">{state === 'won' ? <Check size={24} /> : state === 'locked' ? <Lock size={20} /> : <Swords size={24} />}</span>
+                <span className="flex-1 text-2xl font-bold">{i + 1}. {round.name}</span>
+                <span className="text-lg">{getArena(round.arenaId).name}</span>
+                <span className="w-40 text-right text-lg">{round.enemies.length} × {round.difficulty}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-between items-end mb-2 text-xl">
+          <span className="text-slate-800 font-bold">HULL ({run.loadout.type})</span>
+          <span className="text-slate-900">{run.hull} / {maxHull} HP</span>
+        </div>
+        <div className="w-full h-6 bg-slate-200 border-2 border-slate-400 overflow-hidden p-1 mb-2">
+          <div className={`h-full ${run.hull / maxHull > 0.3 ? 'bg-blue-600' : 'bg-red-600 animate-pulse'}`} style={{ width: `${(run.hull / maxHull) * 100}%` }} />
+        </div>
+        <p className="text-lg text-slate-500 mb-8">REPAIR BUDGET: {run.repairBudget} HP</p>
+
+        <div className="flex justify-between text-3xl font-bold">
+          <div className="flex gap-4">
+            <button onClick={onBack} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">BACK</button>
+            <button onClick={onAbandon} className="px-8 py-3 border-4 border-red-600 text-red-600 hover:bg-red-50">ABANDON</button>
+          </div>
+          <button onClick={onFight} className="px-12 py-3 bg-slate-900 text-white hover:bg-blue-600 shadow-[8px_8px_0px_#94a3b8]">FIGHT</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Gavel } from 'lucide-react';
+import { RobotData, Scorecard } from '../types';
+import { JudgeScore, SCORE_CATEGORIES } from '../sim/judges';
+
+interface DecisionScreenProps {
+  scores: JudgeScore[];
+  robots: RobotData[];
+  // Points on offer per category, from the match's config.
+  maxPoints: Scorecard;
+  winnerId: string | null;
+  labelFor: (robotId: string) => string;
+  onContinue: () => void;
+}
+
+// Shown when the clock runs out: each survivor's points by category before the result screen.
+export const DecisionScreen: React.FC<DecisionScreenProps> = ({ scores, robots, maxPoints, winnerId, labelFor, onContinue }) => (
+  <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-100/90 backdrop-blur-md pointer-events-auto">
+    <div className="w-[48rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase text-center">
+      <h2 className="flex items-center justify-center gap-4 text-7xl font-bold mb-2 tracking-tighter text-slate-900 italic"><Gavel size={56} /> Judges' Decision</h2>
+      <p className="text-2xl text-slate-500 mb-8 tracking-[0.5em]">{winnerId ? `${labelFor(winnerId)} Takes It` : 'Scored A Draw'}</p>
+
+      <table className="w-full text-xl mb-10 text-left">
+        <thead>
+          <tr className="text-slate-500 text-base border-b-4 border-slate-900">
+            <th className="py-1">Robot</th>
+            {SCORE_CATEGORIES.map(category => <th key={category} className="text-right">{category} /{maxPoints[category]}</th>)}
+            <th className="text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {scores.map(score => {
+            const robot = robots.find(r => r.id === score.robotId);
+            return (
+              <tr key={score.robotId} className={`border-b-2 border-slate-200 ${score.robotId === winnerId ? 'font-bold text-slate-900' : 'text-slate-600'}`}>
+                <td className="py-1 flex items-center gap-2">
+                  <span className="w-3 h-3 inline-block" style={{ backgroundColor: robot?.color }} />
+                  {labelFor(score.robotId)}
+                </td>
+                {SCORE_CATEGORIES.map(category => <td key={category} className="text-right">{score.points[category].toFixed(1)}</td>)}
+                <td className="text-right">{score.total.toFixed(1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <button onClick={onContinue} className="px-16 py-4 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 shadow-[8px_8px_0px_#94a3b8]">CONTINUE</button>
+    </div>
+  </div>
+);
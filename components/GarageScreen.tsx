@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Shield, Gauge, Zap, Minus, Plus } from 'lucide-react';
+import { Loadout, RobotStats, RobotType } from '../types';
+import { PLAYER_PAINT, STAT_BUDGET, STAT_MAX, STAT_MAX_ALLOCATION } from '../constants';
+import { STAT_KEYS, allocatedPoints } from '../garage/loadout';
+import { resolveStats, maxHealthFor } from '../sim/stats';
+
+interface GarageScreenProps {
+  loadout: Loadout;
+  onDeploy: (loadout: Loadout) => void;
+  onBack: () => void;
+}
+
+const CHASSIS: { type: RobotType; label: string; blurb: string }[] = [
+  { type: 'spinner', label: 'SPINNER', blurb: 'Balanced. Lethal disc.' },
+  { type: 'wedge', label: 'WEDGE', blurb: 'Fast. Low plate.' },
+  { type: 'tank', label: 'TANK', blurb: 'Heavy. Slow.' }
+];
+
+const STAT_ICONS: Record<keyof RobotStats, React.ReactNode> = {
+  armor: <Shield size={18} />,
+  speed: <Gauge size={18} />,
+  power: <Zap size={18} />
+};
+
+export const GarageScreen: React.FC<GarageScreenProps> = ({ loadout, onDeploy, onBack }) => {
+  const [draft, setDraft] = useState(loadout);
+  const stats = resolveStats(draft.type, draft.allocation);
+  const remaining = STAT_BUDGET - allocatedPoints(draft.allocation);
+
+  const adjust = (key: keyof RobotStats, delta: number) => {
+    const value = draft.allocation[key] + delta;
+    if (value < 0 || value > STAT_MAX_ALLOCATION || (delta > 0 && remaining <= 0)) return;
+    setDraft({ ...draft, allocation: { ...draft.allocation, [key]: value } });
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[48rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-6 tracking-tighter text-slate-900 italic">Garage</h2>
+
+        {/* Chassis */}
+        <div className="grid grid-cols-3 gap-3 mb-6">
+          {CHASSIS.map(c => (
+            <button
+              key={c.type}
+              onClick={() => setDraft({ ...draft, type: c.type })}
+              className={`p-3 border-4 border-slate-900 text-left ${draft.type === c.type ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}
+            >
+              <div className="text-2xl font-bold">{c.label}</div>
+              <div className="text-sm opacity-70">{c.blurb}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Paint */}
+        <div className="flex items-center gap-3 mb-6 text-xl">
+          <span className="w-24 text-slate-500">PAINT</span>
+          {PLAYER_PAINT.map(color => (
+            <button
+              key={color}
+              onClick={() => setDraft({ ...draft, color })}
+              className={`w-10 h-10 border-4 ${draft.color === color ? 'border-slate-900 scale-110' : 'border-slate-300'}`}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+
+        {/* Stat Trade-offs */}
+        <div className="flex justify-between text-lg text-slate-500 mb-2">
+          <span>TUNING</span>
+          <span className={remaining > 0 ? 'text-blue-600' : ''}>POINTS LEFT: {remaining}</span>
+        </div>
+        <div className="space-y-3 mb-4 text-xl">
+          {STAT_KEYS.map(key => (
+            <div key={key} className="flex items-center gap-3">
+              <span className="w-24 flex items-center gap-2 text-slate-800 font-bold">{STAT_ICONS[key]} {key}</span>
+              <button onClick={() => adjust(key, -1)} className="p-1 border-2 border-slate-900 hover:bg-slate-200"><Minus size={16} /></button>
+              <div className="flex-1 h-6 bg-slate-200 border-2 border-slate-400 p-1 flex gap-1">
+                {Array.from({ length: STAT_MAX }, (_, i) => (
+                  <div key={i} className={`flex-1 h-full ${i < stats[key] ? (i < stats[key] - draft.allocation[key] ? 'bg-slate-700' : 'bg-blue-600') : ''}`} />
+                ))}
+              </div>
+              <button onClick={() => adjust(key, 1)} className="p-1 border-2 border-slate-900 hover:bg-slate-200"><Plus size={16} /></button>
+              <span className="w-10 text-right text-slate-900">{stats[key]}</span>
+            </div>
+          ))}
+        </div>
+        <p className="text-lg text-slate-500 mb-8">HULL: {maxHealthFor(stats)} HP</p>
+
+        <div className="flex justify-between text-3xl font-bold">
+          <button onClick={onBack} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">BACK</button>
+          <button onClick={() => onDeploy(draft)} className="px-12 py-3 bg-slate-900 text-white hover:bg-blue-600 shadow-[8px_8px_0px_#94a3b8]">DEPLOY</button>
+        </div>
+      </div>
+    </div>
+  );
+};
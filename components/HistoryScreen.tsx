@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { MatchReport } from '../types';
+import { getArena } from '../arenas';
+import { personalBests } from '../stats/history';
+import { MatchReportPanel } from './MatchReportPanel';
+
+interface HistoryScreenProps {
+  history: MatchReport[];
+  onClose: () => void;
+}
+
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({ history, onClose }) => {
+  const [selected, setSelected] = useState(0);
+  const bests = personalBests(history);
+  const report = history[selected];
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[64rem] max-h-[90vh] flex flex-col border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-6 tracking-tighter text-slate-900 italic">Records</h2>
+
+        {/* Personal Bests */}
+        <div className="grid grid-cols-5 gap-3 mb-6 text-center">
+          {[
+            ['WINS', `${bests.wins}/${bests.matches}`],
+            ['FASTEST WIN', bests.fastestWin === null ? '--' : `${bests.fastestWin.toFixed(1)}S`],
+            ['MOST DAMAGE', Math.round(bests.mostDamage)],
+            ['MOST ELIMS', bests.mostEliminations],
+            ['TOP SPEED', bests.topSpeed.toFixed(1)]
+          ].map(([label, value]) => (
+            <div key={label} className="p-2 border-4 border-slate-900">
+              <div className="text-sm text-slate-500">{label}</div>
+              <div className="text-3xl font-bold text-slate-900">{value}</div>
+            </div>
+          ))}
+        </div>
+
+        {history.length === 0 ? (
+          <p className="text-2xl text-slate-500 mb-8">NO MATCHES ON RECORD</p>
+        ) : (
+          <div className="flex gap-6 min-h-0 mb-6">
+            <div className="w-64 overflow-y-auto space-y-2 text-lg">
+              {history.map((h, i) => (
+                <button
+                  key={h.playedAt}
+                  onClick={() => setSelected(i)}
+                  className={`w-full p-2 border-2 border-slate-900 text-left ${selected === i ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}
+                >
+                  <div className="font-bold">{h.playerWon ? 'WIN' : 'LOSS'} // {h.mode}</div>
+                  <div className="text-sm opacity-70">{getArena(h.arenaId).name} · {new Date(h.playedAt).toLocaleDateString()}</div>
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto">{report && <MatchReportPanel report={report} />}</div>
+          </div>
+        )}
+
+        <div className="flex justify-end text-3xl font-bold">
+          <button onClick={onClose} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">CLOSE</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Wrench } from 'lucide-react';
+import { CampaignRun } from '../types';
+import { CAMPAIGN_ROUNDS, CAMPAIGN_REPAIR_PER_WIN, CAMPAIGN_REPAIR_STEP } from '../constants';
+import { maxHullFor } from '../campaign/campaign';
+
+interface IntermissionScreenProps {
+  run: CampaignRun;
+  onRepair: (amount: number) => void;
+  onContinue: () => void;
+}
+
+// Shown after each won round: spend the repair budget before the next fight.
+export const IntermissionScreen: React.FC<IntermissionScreenProps> = ({ run, onRepair, onContinue }) => {
+  const maxHull = maxHullFor(run.loadout);
+  const canRepair = run.repairBudget > 0 && run.hull < maxHull;
+  const cleared = CAMPAIGN_ROUNDS[run.round - 1];
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-100/90 backdrop-blur-md pointer-events-auto">
+      <div className="w-[40rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase text-center">
+        <h2 className="text-7xl font-bold mb-2 tracking-tighter text-blue-600 italic">{cleared?.name} Cleared</h2>
+        <p className="text-2xl text-slate-500 mb-8 tracking-[0.5em]">+{CAMPAIGN_REPAIR_PER_WIN} HP Repair Budget</p>
+
+        <div className="flex justify-between items-end mb-2 text-xl">
+          <span className="text-slate-800 font-bold">HULL</span>
+          <span className="text-slate-900">{run.hull} / {maxHull} HP</span>
+        </div>
+        <div className="w-full h-6 bg-slate-200 border-2 border-slate-400 overflow-hidden p-1 mb-2">
+          <div className={`h-full transition-all duration-300 ${run.hull / maxHull > 0.3 ? 'bg-blue-600' : 'bg-red-600 animate-pulse'}`} style={{ width: `${(run.hull / maxHull) * 100}%` }} />
+        </div>
+        <p className="text-lg text-slate-500 mb-6">BUDGET LEFT: {run.repairBudget} HP</p>
+
+        <div className="flex justify-center gap-4 mb-10 text-2xl font-bold">
+          <button disabled={!canRepair} onClick={() => onRepair(CAMPAIGN_REPAIR_STEP)} className="flex items-center gap-2 px-6 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200 disabled:opacity-30">
+            <Wrench size={20} /> +{CAMPAIGN_REPAIR_STEP}
+          </button>
+          <button disabled={!canRepair} onClick={() => onRepair(run.repairBudget)} className="flex items-center gap-2 px-6 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200 disabled:opacity-30">
+            <Wrench size={20} /> MAX
+          </button>
+        </div>
+
+        <button onClick={onContinue} className="px-16 py-4 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 shadow-[8px_8px_0px_#94a3b8]">CONTINUE</button>
+      </div>
+    </div>
+  );
+};
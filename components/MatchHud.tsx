@@ -0,0 +1,153 @@
+import React from 'react';
+import { Cpu, Swords, Zap, Shield, Flame, Timer } from 'lucide-react';
+import { ArmorSide, MatchMode, RobotData, RobotSubsystems } from '../types';
+import { HIT_SPARK_DURATION, HUD_REFRESH_MS, PICKUP_COLORS, TEAM_COLORS, TEAM_NAMES } from '../constants';
+import { BrainStatus } from '../bots/brainHost';
+import { WorldStore } from '../store/worldStore';
+import { useWorldSnapshot } from '../hooks/useWorldSnapshot';
+import { EFFECT_TIMERS, TimedPickup } from '../sim/pickups';
+import { isTeamGame } from '../sim/rules';
+import { labelFor } from '../stats/matchStats';
+import { timeLeft, releaseTime } from '../sim/clock';
+
+interface MatchHudProps {
+  store: WorldStore;
+  mode: MatchMode;
+  // Set online: only this robot gets a hull panel.
+  localRobotId: string | null;
+  brainStatus: Record<string, BrainStatus>;
+  showScriptErrors: boolean;
+  // Sim time each robot last took damage, for the hull flash.
+  lastDamaged: React.MutableRefObject<Record<string, number>>;
+}
+
+// Rounded up, so the clock only reads 0:00 at the bell.
+const formatClock = (seconds: number) => {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Seconds left in a timed match, and the countdown to the pit release when there is one.
+const MatchClock: React.FC<{ left: number; releaseIn: number | null }> = ({ left, releaseIn }) => (
+  <div className="absolute top-8 left-1/2 -translate-x-1/2 bg-white/80 backdrop-blur-md px-8 py-3 border-b-4 border-slate-900 shadow-xl text-center uppercase">
+    <div className={`flex items-center justify-center gap-2 text-5xl font-bold ${left <= 10 ? 'text-red-600 animate-pulse' : 'text-slate-900'}`}><Timer size={32}/> {formatClock(left)}</div>
+    {releaseIn !== null && (
+      <div className={`text-lg ${releaseIn > 0 ? 'text-slate-500' : 'text-red-600 animate-pulse'}`}>{releaseIn > 0 ? `PIT RELEASE IN ${formatClock(releaseIn)}` : 'PITS OPEN'}</div>
+    )}
+  </div>
+);
+
+const weaponStatus = (bot: RobotData, now: number) => {
+  const recharge = Math.max(0, bot.weaponCooldownUntil - now);
+  if (bot.type === 'spinner') return `SPIN: ${Math.round(bot.weaponEnergy * 100)}%`;
+  if (bot.type === 'wedge') return `LIFT: ${recharge > 0 ? `${recharge.toFixed(1)}S` : bot.weaponActive ? 'ARMED' : 'READY'}`;
+  return `RAM: ${bot.weaponActive ? 'CHARGING' : recharge > 0 ? `${recharge.toFixed(1)}S` : 'READY'}`;
+};
+
+const partClass = (integrity: number) => integrity > 0.6 ? 'bg-blue-600' : integrity > 0.3 ? 'bg-amber-500' : 'bg-red-600 animate-pulse';
+
+const PartBar: React.FC<{ label: string; integrity: number }> = ({ label, integrity }) => (
+  <div className="flex items-center gap-2">
+    <span className="w-16">{label}</span>
+    <div className="flex-1 h-3 bg-slate-200 border border-slate-400 overflow-hidden">
+      <div className={`h-full ${partClass(integrity)}`} style={{ width: `${integrity * 100}%` }} />
+    </div>
+    <span className="w-10 text-right text-slate-900">{Math.round(integrity * 100)}%</span>
+  </div>
+);
+
+// Top-down armour diagram, nose up: the chassis in the middle, a panel on each side.
+const ARMOR_CELLS: (ArmorSide | 'hull' | null)[] = [null, 'front', null, 'left', 'hull', 'right', null, 'rear', null];
+
+const ArmorGrid: React.FC<{ parts: RobotSubsystems }> = ({ parts }) => (
+  <div className="grid grid-cols-3 gap-0.5 w-12 h-12 shrink-0">
+    {ARMOR_CELLS.map((cell, i) => (
+      <div key={i} title={cell ?? undefined} className={cell === 'hull' ? 'bg-slate-900' : cell ? partClass(parts.armor[cell]) : ''} style={cell && cell !== 'hull' ? { opacity: 0.25 + parts.armor[cell] * 0.75 } : undefined} />
+    ))}
+  </div>
+);
+
+const EFFECT_ICONS: Record<TimedPickup, typeof Zap> = { overdrive: Zap, shield: Shield, overcharge: Flame };
+
+// Active pickup effects with the seconds each has left.
+const EffectTimers: React.FC<{ bot: RobotData; now: number }> = ({ bot, now }) => {
+  const active = (Object.keys(EFFECT_TIMERS) as TimedPickup[]).filter(kind => bot[EFFECT_TIMERS[kind]] > now);
+  if (active.length === 0) return null;
+  return (
+    <div className="mt-3 flex gap-4 text-sm uppercase">
+      {active.map(kind => {
+        const Icon = EFFECT_ICONS[kind];
+        return (
+          <div key={kind} className="flex items-center gap-1" style={{ color: PICKUP_COLORS[kind] }}>
+            <Icon size={16}/> <span className="text-slate-900">{kind} {Math.ceil(bot[EFFECT_TIMERS[kind]] - now)}S</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// Redraws on its own throttled subscription so the rest of the app doesn't re-render per tick.
+export const MatchHud: React.FC<MatchHudProps> = ({ store, mode, localRobotId, brainStatus, showScriptErrors, lastDamaged }) => {
+  const world = useWorldSnapshot(store, HUD_REFRESH_MS);
+  const { robots } = world;
+  const playerBots = robots.filter(r => localRobotId ? r.id === localRobotId : r.isPlayer);
+  const { type } = world.rules;
+  // Head-to-head counts everyone still up; otherwise just those not on a local player's side.
+  const combatants = robots.filter(r => !r.isDead && (mode === 'versus' || !playerBots.some(p => p.team === r.team)));
+  const hillLeaders = [...robots].sort((a, b) => b.hillTime - a.hillTime).slice(0, 3);
+  const left = timeLeft(world.config, world.time);
+  const release = releaseTime(world.config);
+
+  return (
+    <>
+      {left !== null && <MatchClock left={left} releaseIn={release === null ? null : Math.max(0, release - world.time)} />}
+      <div className="absolute top-8 right-8 bg-white/80 backdrop-blur-md p-6 border-b-4 border-l-4 border-red-600 shadow-xl">
+        <div className="text-sm text-slate-500 mb-1 uppercase text-right">Combatants</div>
+        <div className="text-5xl font-bold text-red-600 text-right">{combatants.length}</div>
+        {isTeamGame(type) && (
+          <div className="mt-2 flex justify-end gap-4 text-xl uppercase">
+            {TEAM_NAMES.map((name, team) => (
+              <span key={name} style={{ color: TEAM_COLORS[team] }}>{name} {robots.filter(r => r.team === team && !r.isDead).length}</span>
+            ))}
+          </div>
+        )}
+        {type === 'koth' && (
+          <div className="mt-2 text-sm text-slate-500 uppercase text-right">
+            <div>Hill ({world.config.hillHoldTime}S)</div>
+            {hillLeaders.map(r => (
+              <div key={r.id}><span style={{ color: r.color }}>{labelFor(r, robots, mode)}</span> <span className="text-slate-900">{Math.floor(r.hillTime)}S</span></div>
+            ))}
+          </div>
+        )}
+        {showScriptErrors && Object.entries(brainStatus).map(([id, status]) => status.state === 'failed' && (
+          <div key={id} className="mt-2 max-w-xs text-sm text-red-600 text-right uppercase truncate">{id} SCRIPT: {status.reason}</div>
+        ))}
+      </div>
+      {playerBots.map((bot, i) => (
+        <div key={bot.id} className={`absolute bottom-12 w-80 bg-white/80 backdrop-blur-md p-6 border-t-4 border-r-4 shadow-xl ${world.time - (lastDamaged.current[bot.id] ?? -Infinity) < HIT_SPARK_DURATION ? 'border-red-600' : 'border-slate-900'} ${i === 0 ? 'left-12' : 'left-[calc(50%+3rem)]'}`}>
+          <div className="flex justify-between items-end mb-3">
+            <span className="text-lg font-bold text-slate-800 uppercase">{playerBots.length > 1 && <span style={{ color: bot.color }}>P{i + 1} </span>}Hull Integrity</span>
+            <span className="text-3xl text-slate-900">{Math.ceil((bot.health / bot.maxHealth) * 100)}%</span>
+          </div>
+          <div className="w-full h-6 bg-slate-200 border-2 border-slate-400 overflow-hidden p-1">
+            <div className={`h-full transition-all duration-300 ${bot.health / bot.maxHealth > 0.3 ? 'bg-blue-600' : 'bg-red-600 animate-pulse'}`} style={{ width: `${(bot.health / bot.maxHealth) * 100}%` }} />
+          </div>
+          <div className="mt-4 grid grid-cols-2 gap-4 text-sm text-slate-500 uppercase">
+            <div className={`flex items-center gap-2 ${brainStatus[bot.id]?.state === 'failed' ? 'text-red-600' : ''}`}><Cpu size={16}/> CTRL: {brainStatus[bot.id] ? (brainStatus[bot.id].state === 'failed' ? 'SCRIPT DOWN' : 'SCRIPT') : 'OK'}</div>
+            <div className="flex items-center gap-2"><Swords size={16}/> {weaponStatus(bot, world.time)}</div>
+          </div>
+          <div className="mt-3 flex items-center gap-4 text-sm text-slate-500 uppercase">
+            <ArmorGrid parts={bot.subsystems} />
+            <div className="flex-1 space-y-1">
+              <PartBar label="DRIVE L" integrity={bot.subsystems.driveLeft} />
+              <PartBar label="DRIVE R" integrity={bot.subsystems.driveRight} />
+              <PartBar label="WEAPON" integrity={bot.subsystems.weapon} />
+            </div>
+          </div>
+          <EffectTimers bot={bot} now={world.time} />
+        </div>
+      ))}
+    </>
+  );
+};
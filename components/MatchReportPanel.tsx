@@ -0,0 +1,69 @@
+import React from 'react';
+import { MatchReport } from '../types';
+
+// Enemies share a paint job, so the chart tells them apart by shade.
+const ENEMY_SHADES = ['#ef4444', '#f97316', '#a855f7', '#64748b'];
+
+const CHART_WIDTH = 560;
+const CHART_HEIGHT = 140;
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export const MatchReportPanel: React.FC<{ report: MatchReport }> = ({ report }) => {
+  const lineColors = report.robots.map((r, i) => r.isPlayer ? r.color : ENEMY_SHADES[i % ENEMY_SHADES.length]);
+  const maxDamage = Math.max(1, ...report.robots.map(r => r.damageTaken));
+  const duration = Math.max(report.duration, 1);
+
+  return (
+    <div className="text-left uppercase">
+      <table className="w-full text-xl mb-4">
+        <thead>
+          <tr className="text-slate-500 text-base border-b-4 border-slate-900">
+            <th className="text-left py-1">Robot</th>
+            <th className="text-right">Hits</th>
+            <th className="text-right">Dealt</th>
+            <th className="text-right">Taken</th>
+            <th className="text-right">Ring-outs</th>
+            <th className="text-right">KOs</th>
+            <th className="text-right">Alive</th>
+            <th className="text-right">Top Spd</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.robots.map((r, i) => (
+            <tr key={r.id} className={`border-b-2 border-slate-200 ${r.id === report.winnerId ? 'font-bold text-slate-900' : 'text-slate-600'}`}>
+              <td className="py-1 flex items-center gap-2">
+                <span className="w-3 h-3 inline-block" style={{ backgroundColor: lineColors[i] }} />
+                {r.label}
+                {r.eliminated && <span className="text-sm text-red-600">{r.eliminated === 'ringout' ? 'OUT' : 'KO'}</span>}
+              </td>
+              <td className="text-right">{r.hits}</td>
+              <td className="text-right">{Math.round(r.damageDealt)}</td>
+              <td className="text-right">{Math.round(r.damageTaken)}</td>
+              <td className="text-right">{r.ringOuts}</td>
+              <td className="text-right">{r.kos}</td>
+              <td className="text-right">{formatTime(r.timeAlive)}</td>
+              <td className="text-right">{r.topSpeed.toFixed(1)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Damage taken over time */}
+      <div className="text-base text-slate-500 mb-1">DAMAGE TAKEN // {formatTime(report.duration)}</div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36 bg-slate-100 border-2 border-slate-400">
+        {report.robots.map((r, i) => (
+          <polyline
+            key={r.id}
+            fill="none"
+            stroke={lineColors[i]}
+            strokeWidth={3}
+            points={report.timeline
+              .map(s => `${(s.time / duration) * CHART_WIDTH},${CHART_HEIGHT - ((s.damage[r.id] ?? 0) / maxDamage) * (CHART_HEIGHT - 8)}`)
+              .join(' ')}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
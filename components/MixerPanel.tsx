@@ -0,0 +1,44 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { AudioMixer } from '../types';
+
+interface MixerPanelProps {
+  mixer: AudioMixer;
+  onChange: (mixer: AudioMixer) => void;
+}
+
+const CHANNELS: { key: 'master' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'MSTR' },
+  { key: 'sfx', label: 'SFX' }
+];
+
+export const MixerPanel: React.FC<MixerPanelProps> = ({ mixer, onChange }) => (
+  <div className="absolute bottom-12 right-12 z-10 bg-white/80 backdrop-blur-md p-3 border-t-4 border-l-4 border-slate-900 shadow-xl pointer-events-auto uppercase text-lg text-slate-700">
+    <div className="flex items-center gap-3">
+      <button
+        onClick={() => onChange({ ...mixer, muted: !mixer.muted })}
+        className={`p-2 ${mixer.muted ? 'bg-red-600 text-white' : 'bg-slate-900 text-white hover:bg-blue-600'}`}
+        title={mixer.muted ? 'Unmute' : 'Mute'}
+      >
+        {mixer.muted ? <VolumeX size={18} /> : <Volume2 size={18} />}
+      </button>
+      <div className="space-y-1">
+        {CHANNELS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="w-10">{label}</span>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={mixer[key]}
+              disabled={mixer.muted}
+              onChange={(e) => onChange({ ...mixer, [key]: Number(e.target.value) })}
+              className="w-28 accent-blue-600"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,19 @@
+import React from 'react';
+import { Crown, Wifi } from 'lucide-react';
+import { OnlineLobby } from '../net/session';
+
+// HUD strip for online matches: room, pilots and their latency to the host.
+export const NetStatus: React.FC<{ lobby: OnlineLobby }> = ({ lobby }) => (
+  <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 bg-white/80 backdrop-blur-md px-4 py-2 border-b-4 border-slate-900 shadow-xl pointer-events-none uppercase text-lg text-slate-700">
+    <div className="flex items-center gap-4">
+      <span className="flex items-center gap-1 font-bold text-slate-900"><Wifi size={16} /> {lobby.room}</span>
+      {lobby.members.map(m => (
+        <span key={m.id} className={`flex items-center gap-1 ${m.id === lobby.clientId ? 'text-slate-900 font-bold' : ''}`}>
+          {m.id === lobby.hostId && <Crown size={14} className="text-yellow-500" />}
+          {m.name}
+          <span className="text-slate-500">{m.id === lobby.hostId ? 'HOST' : lobby.latencies[m.id] !== undefined ? `${lobby.latencies[m.id]}MS` : '--'}</span>
+        </span>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Crown, Wifi } from 'lucide-react';
+import { DEFAULT_RELAY_URL, MAX_ROOM_PLAYERS } from '../constants';
+import { OnlineLobby as Lobby, isHost } from '../net/session';
+
+interface OnlineLobbyProps {
+  lobby: Lobby | null;
+  connecting: boolean;
+  error: string | null;
+  onJoin: (url: string, room: string, name: string) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  onClose: () => void;
+}
+
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const randomRoomCode = () => Array.from({ length: 4 }, () => ROOM_ALPHABET[Math.floor(Math.random() * ROOM_ALPHABET.length)]).join('');
+
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ lobby, connecting, error, onJoin, onStart, onLeave, onClose }) => {
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [name, setName] = useState('');
+  const [room, setRoom] = useState('');
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[40rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-6 tracking-tighter text-slate-900 italic">Online</h2>
+
+        {!lobby ? (
+          <div className="space-y-4 text-xl mb-8">
+            <label className="flex items-center gap-3">
+              <span className="w-24 text-slate-500">RELAY</span>
+              <input value={url} onChange={(e) => setUrl(e.target.value)} className="flex-1 px-2 py-1 border-4 border-slate-900 normal-case" />
+            </label>
+            <label className="flex items-center gap-3">
+              <span className="w-24 text-slate-500">NAME</span>
+              <input value={name} maxLength={16} onChange={(e) => setName(e.target.value)} className="flex-1 px-2 py-1 border-4 border-slate-900 uppercase" />
+            </label>
+            <label className="flex items-center gap-3">
+              <span className="w-24 text-slate-500">ROOM</span>
+              <input value={room} maxLength={8} onChange={(e) => setRoom(e.target.value.toUpperCase())} className="flex-1 px-2 py-1 border-4 border-slate-900 uppercase tracking-[0.5em]" />
+            </label>
+            <div className="flex gap-4 text-2xl font-bold">
+              <button disabled={connecting} onClick={() => { const code = randomRoomCode(); setRoom(code); onJoin(url, code, name); }} className="flex-1 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200 disabled:opacity-30">CREATE ROOM</button>
+              <button disabled={connecting || !room} onClick={() => onJoin(url, room, name)} className="flex-1 py-2 bg-slate-900 text-white hover:bg-blue-600 disabled:opacity-30">JOIN</button>
+            </div>
+            {connecting && <p className="text-slate-500 flex items-center gap-2"><Wifi size={18} /> CONNECTING...</p>}
+          </div>
+        ) : (
+          <div className="mb-8">
+            <div className="flex justify-between items-end mb-4">
+              <span className="text-xl text-slate-500">ROOM CODE</span>
+              <span className="text-6xl font-bold tracking-[0.3em] text-slate-900">{lobby.room}</span>
+            </div>
+            <div className="space-y-2 text-2xl">
+              {lobby.members.map(m => (
+                <div key={m.id} className={`flex items-center gap-3 p-2 border-4 ${m.id === lobby.clientId ? 'border-slate-900' : 'border-slate-300'}`}>
+                  {m.id === lobby.hostId ? <Crown size={20} className="text-yellow-500" /> : <span className="w-5" />}
+                  <span className="flex-1 font-bold">{m.name}</span>
+                  <span className="text-lg text-slate-500">{m.id === lobby.hostId ? 'HOST' : lobby.latencies[m.id] !== undefined ? `${lobby.latencies[m.id]}MS` : '--'}</span>
+                </div>
+              ))}
+            </div>
+            <p className="mt-3 text-lg text-slate-500">{lobby.members.length}/{MAX_ROOM_PLAYERS} PILOTS</p>
+          </div>
+        )}
+
+        {error && <p className="mb-4 text-xl text-red-600">{error}</p>}
+
+        <div className="flex justify-between text-3xl font-bold">
+          <button onClick={lobby ? onLeave : onClose} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">{lobby ? 'LEAVE' : 'BACK'}</button>
+          {lobby && (isHost(lobby) ? (
+            <button disabled={lobby.members.length < 2} onClick={onStart} className="px-12 py-3 bg-slate-900 text-white hover:bg-blue-600 shadow-[8px_8px_0px_#94a3b8] disabled:opacity-30">START</button>
+          ) : (
+            <span className="px-4 py-3 text-2xl text-slate-500">WAITING FOR HOST</span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
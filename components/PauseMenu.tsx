@@ -0,0 +1,32 @@
+import React from 'react';
+import { Play, RotateCcw, Settings as SettingsIcon, LogOut } from 'lucide-react';
+
+interface PauseMenuProps {
+  onResume: () => void;
+  onRestart: () => void;
+  onSettings: () => void;
+  onQuit: () => void;
+}
+
+export const PauseMenu: React.FC<PauseMenuProps> = ({ onResume, onRestart, onSettings, onQuit }) => (
+  <div className="absolute inset-0 z-20 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+    <div className="w-[32rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase text-center">
+      <h2 className="text-8xl font-bold mb-2 tracking-tighter text-slate-900 italic">Paused</h2>
+      <p className="text-xl text-slate-500 mb-8 tracking-widest">ESC TO RESUME</p>
+      <button onClick={onResume} className="w-full flex items-center justify-center gap-3 px-8 py-4 mb-4 bg-slate-900 text-white text-4xl font-bold hover:bg-blue-600 transition-all shadow-[8px_8px_0px_#94a3b8]">
+        <Play size={28} /> RESUME
+      </button>
+      <div className="space-y-3 text-3xl font-bold">
+        <button onClick={onRestart} className="w-full flex items-center justify-center gap-3 px-8 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">
+          <RotateCcw size={22} /> RESTART
+        </button>
+        <button onClick={onSettings} className="w-full flex items-center justify-center gap-3 px-8 py-2 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">
+          <SettingsIcon size={22} /> SETTINGS
+        </button>
+        <button onClick={onQuit} className="w-full flex items-center justify-center gap-3 px-8 py-2 border-4 border-slate-900 text-red-600 hover:bg-slate-200">
+          <LogOut size={22} /> QUIT TO TITLE
+        </button>
+      </div>
+    </div>
+  </div>
+);
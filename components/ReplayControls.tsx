@@ -0,0 +1,68 @@
+import React from 'react';
+import { Pause, Play, X } from 'lucide-react';
+import { Replay } from '../sim/replay';
+import { WorldStore } from '../store/worldStore';
+import { useWorldSnapshot } from '../hooks/useWorldSnapshot';
+import { HUD_REFRESH_MS } from '../constants';
+
+export interface PlaybackState {
+  paused: boolean;
+  speed: number;
+}
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  replay: Replay;
+  store: WorldStore;
+  playback: PlaybackState;
+  onPlaybackChange: (playback: PlaybackState) => void;
+  onSeek: (tick: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds % 60).toFixed(2).padStart(5, '0');
+  return `${m}:${s}`;
+};
+
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ replay, store, playback, onPlaybackChange, onSeek, onExit }) => {
+  const { tick } = useWorldSnapshot(store, HUD_REFRESH_MS);
+  return (
+    <div className="absolute bottom-12 left-1/2 -translate-x-1/2 w-[40rem] z-20 bg-white/80 backdrop-blur-md p-4 border-t-4 border-r-4 border-slate-900 shadow-xl pointer-events-auto uppercase">
+      <div className="flex items-center gap-4">
+        <button
+          onClick={() => onPlaybackChange({ ...playback, paused: !playback.paused })}
+          className="p-2 bg-slate-900 text-white hover:bg-blue-600"
+        >
+          {playback.paused ? <Play size={20} /> : <Pause size={20} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={replay.tickCount}
+          value={tick}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-blue-600"
+        />
+        <span className="text-xl text-slate-800 w-40 text-right">
+          {formatTime(tick * replay.timestep)} / {formatTime(replay.tickCount * replay.timestep)}
+        </span>
+        <button onClick={onExit} className="p-2 bg-slate-900 text-white hover:bg-red-600"><X size={20} /></button>
+      </div>
+      {/* Speed Selector */}
+      <div className="mt-3 flex gap-2 text-lg">
+        {PLAYBACK_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => onPlaybackChange({ ...playback, speed })}
+            className={`px-3 border-2 border-slate-900 ${playback.speed === speed ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,51 +1,123 @@
 
 import React, { useRef } from 'react';
-import { useFrame } from '@react-three/fiber';
+import { useFrame, useThree } from '@react-three/fiber';
 import { Mesh, Group } from 'three';
 import { Html } from '@react-three/drei';
 import { RobotData } from '../types';
-import { ROBOT_RADIUS, ROBOT_COLORS } from '../constants';
+import { ROBOT_RADIUS, ROBOT_COLORS, HIT_SPARK_DURATION } from '../constants';
+import { useGameEvent } from '../hooks/useGameEvent';
 
 interface RobotProps {
+  // Stepped in place by GameLoop; read it from the frame callback, not during render.
   data: RobotData;
+  // Render interpolation between the last two sim ticks, written by GameLoop each frame.
+  alpha: React.MutableRefObject<number>;
+  showLabel: boolean;
+  // Set in team games, where it replaces the usual player / enemy colours.
+  teamColor?: string;
 }
 
-export const Robot: React.FC<RobotProps> = ({ data }) => {
+// Smoke starts once any part is below this.
+const SMOKE_THRESHOLD = 0.6;
+const SMOKE_PUFFS = [0, 1, 2];
+
+// [x, z] per wheel: +x is the robot's left, +z its front.
+const WHEELS = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+const healthClass = (fraction: number) =>
+  `h-full transition-all duration-300 ${fraction > 0.5 ? 'bg-green-500' : fraction > 0.2 ? 'bg-yellow-500' : 'bg-red-600'}`;
+
+// Renders once per roster; everything that moves or changes is written to the
+// scene (and the health bar's DOM) from useFrame.
+export const Robot = React.memo<RobotProps>(({ data, alpha, showLabel, teamColor }) => {
+  const bodyRef = useRef<Group>(null);
+  const healthRef = useRef<HTMLDivElement>(null);
+  const shownHealth = useRef(-1);
   const weaponRef = useRef<Mesh>(null);
   const sparkRef = useRef<Group>(null);
+  const sparkUntil = useRef(0);
+  const clock = useThree((state) => state.clock);
+  useGameEvent('damage', (event) => {
+    if (event.targetId === data.id) sparkUntil.current = clock.elapsedTime + HIT_SPARK_DURATION;
+  });
   const turretRef = useRef<Group>(null);
+  const wheelRefs = useRef<(Mesh | null)[]>([]);
+  const smokeRef = useRef<Group>(null);
 
   useFrame((state, delta) => {
+    if (bodyRef.current) {
+      bodyRef.current.visible = !data.isDead;
+      if (data.isDead) return;
+      const t = alpha.current;
+      bodyRef.current.position.set(
+        data.prevPosition.x + (data.position.x - data.prevPosition.x) * t, data.height,
+        data.prevPosition.z + (data.position.z - data.prevPosition.z) * t
+      );
+      bodyRef.current.rotation.y = data.prevRotation + (data.rotation - data.prevRotation) * t;
+      bodyRef.current.rotation.x = -data.height * 0.3; // Tip backwards while lifted
+    }
+    const parts = data.subsystems;
+    const weaponWear = 1 - parts.weapon;
     if (weaponRef.current) {
       if (data.type === 'spinner') {
-        // High-speed rotation for the spinner disc
-        weaponRef.current.rotation.y += delta * (data.weaponActive ? 50 : 10);
+        // Disc speed follows stored spin energy; a damaged disc wobbles
+        weaponRef.current.rotation.y += delta * (10 * parts.weapon + data.weaponEnergy * 40);
+        weaponRef.current.rotation.x = Math.sin(state.clock.elapsedTime * 17) * weaponWear * 0.15;
       } else if (data.type === 'wedge') {
-        // Subtle lifting animation for the wedge plate
-        const targetRot = data.weaponActive ? -Math.PI / 8 : -Math.PI / 4;
+        // Subtle lifting animation for the wedge plate; a damaged one lifts less and droops to one side
+        const targetRot = data.weaponActive ? -Math.PI / 4 + (Math.PI / 8) * parts.weapon : -Math.PI / 4;
         weaponRef.current.rotation.x += (targetRot - weaponRef.current.rotation.x) * 0.1;
+        weaponRef.current.rotation.z = weaponWear * 0.3;
+      }
+    }
+
+    // Front wheels fall off at half drive, the rear ones when it's wrecked
+    wheelRefs.current.forEach((wheel, i) => {
+      if (!wheel) return;
+      const [x, z] = WHEELS[i];
+      wheel.visible = (x > 0 ? parts.driveLeft : parts.driveRight) > (z > 0 ? 0.5 : 0);
+    });
+
+    if (smokeRef.current) {
+      const worst = Math.min(parts.driveLeft, parts.driveRight, parts.weapon);
+      smokeRef.current.visible = worst < SMOKE_THRESHOLD;
+      if (smokeRef.current.visible) {
+        const density = 1 - worst / SMOKE_THRESHOLD;
+        smokeRef.current.children.forEach((puff, i) => {
+          const rise = (state.clock.elapsedTime * (0.6 + density) + i / SMOKE_PUFFS.length) % 1;
+          puff.position.set(Math.sin(i * 2.1 + rise * 3) * 0.15, 0.8 + rise * 1.4, -0.2 - rise * 0.3);
+          puff.scale.setScalar((0.15 + rise * 0.35) * (0.5 + density));
+        });
       }
     }
 
     if (turretRef.current && data.type === 'tank') {
-        // Turret slowly scans or locks forward
-        turretRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.2;
+        // Turret slowly scans, then locks forward and lunges while ramming
+        turretRef.current.rotation.y = data.weaponActive ? 0 : Math.sin(state.clock.elapsedTime * 0.5) * 0.2;
+        turretRef.current.position.z = data.weaponActive ? 0.25 : 0;
     }
     
     // Impact visual feedback
-    if (sparkRef.current && Date.now() / 1000 < data.stunnedUntil) {
+    if (sparkRef.current && state.clock.elapsedTime < sparkUntil.current) {
       sparkRef.current.visible = true;
       sparkRef.current.scale.setScalar(1.2 + Math.sin(state.clock.elapsedTime * 30) * 0.3);
       sparkRef.current.rotation.y += 0.5;
     } else if (sparkRef.current) {
       sparkRef.current.visible = false;
     }
-  });
 
-  if (data.isDead) return null;
+    // Only touch the DOM when the hull actually changed.
+    if (healthRef.current && data.health !== shownHealth.current) {
+      shownHealth.current = data.health;
+      const fraction = data.health / data.maxHealth;
+      healthRef.current.style.width = `${fraction * 100}%`;
+      healthRef.current.className = healthClass(fraction);
+    }
+  });
 
   const getRobotColor = () => {
-    if (data.isPlayer) return ROBOT_COLORS.PLAYER;
+    if (teamColor) return teamColor;
+    if (data.isPlayer) return data.color;
     if (data.type === 'spinner') return ROBOT_COLORS.ENEMY_SPINNER;
     if (data.type === 'wedge') return ROBOT_COLORS.ENEMY_WEDGE;
     return ROBOT_COLORS.ENEMY_TANK;
@@ -54,7 +126,7 @@ export const Robot: React.FC<RobotProps> = ({ data }) => {
   const color = getRobotColor();
 
   return (
-    <group position={[data.position.x, 0, data.position.z]} rotation={[0, data.rotation, 0]}>
+    <group ref={bodyRef} position={[data.position.x, 0, data.position.z]} rotation={[0, data.rotation, 0]}>
       {/* Spark / Hit Effect */}
       <group ref={sparkRef} visible={false} position={[0, 0.5, 0]}>
         <mesh>
@@ -63,6 +135,16 @@ export const Robot: React.FC<RobotProps> = ({ data }) => {
         </mesh>
       </group>
 
+      {/* Damage Smoke */}
+      <group ref={smokeRef} visible={false}>
+        {SMOKE_PUFFS.map(i => (
+          <mesh key={i}>
+            <icosahedronGeometry args={[1, 0]} />
+            <meshBasicMaterial color="#3f3f46" transparent opacity={0.5} depthWrite={false} />
+          </mesh>
+        ))}
+      </group>
+
       {/* CHASSIS DESIGNS BY TYPE */}
       
       {/* 1. THE SPINNER (Agile, Lethal Disc) */}
@@ -171,8 +253,8 @@ export const Robot: React.FC<RobotProps> = ({ data }) => {
       </mesh>
 
       {/* Chunky PS1 Wheels */}
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} position={[x * (ROBOT_RADIUS + 0.15), 0.3, z * 0.6]} rotation={[0, 0, Math.PI / 2]}>
+      {WHEELS.map(([x, z], i) => (
+        <mesh key={i} ref={(el) => { wheelRefs.current[i] = el; }} position={[x * (ROBOT_RADIUS + 0.15), 0.3, z * 0.6]} rotation={[0, 0, Math.PI / 2]}>
           <cylinderGeometry args={[0.35, 0.35, 0.3, 8]} />
           <meshStandardMaterial color="#111" roughness={1} flatShading />
           {/* Wheel Bolt */}
@@ -183,20 +265,14 @@ export const Robot: React.FC<RobotProps> = ({ data }) => {
         </mesh>
       ))}
 
-      {/* Floating Health HUD */}
-      <Html position={[0, 2.4, 0]} center distanceFactor={8}>
+      {/* Floating Health HUD (hidden in split-screen, where it would show in both views) */}
+      {showLabel && <Html position={[0, 2.4, 0]} center distanceFactor={8}>
         <div className="flex flex-col items-center gap-1 opacity-80 scale-75">
           <div className="w-20 h-2 bg-black/80 border border-white/40 p-[1px] shadow-lg">
-            <div 
-              className={`h-full transition-all duration-300 ${
-                (data.health / data.maxHealth) > 0.5 ? 'bg-green-500' : (data.health / data.maxHealth) > 0.2 ? 'bg-yellow-500' : 'bg-red-600'
-              }`} 
-              style={{ width: `${(data.health / data.maxHealth) * 100}%` }}
-            />
+            <div ref={(el) => { healthRef.current = el; shownHealth.current = -1; }} className={healthClass(1)} />
           </div>
-          <span className="text-[10px] text-white/60 font-mono tracking-tighter uppercase">{data.id}</span>
         </div>
-      </Html>
+      </Html>}
     </group>
   );
-};
+});
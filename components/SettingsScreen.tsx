@@ -0,0 +1,98 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { AudioMixer, GraphicsSettings, Settings } from '../types';
+import { CAMERA_MODES, CONTACT_SHADOW_RESOLUTIONS } from '../constants';
+
+interface SettingsScreenProps {
+  settings: Settings;
+  mixer: AudioMixer;
+  onChange: (settings: Settings) => void;
+  onMixerChange: (mixer: AudioMixer) => void;
+  onClose: () => void;
+}
+
+const CHANNELS: { key: 'master' | 'sfx'; label: string }[] = [
+  { key: 'master', label: 'MASTER' },
+  { key: 'sfx', label: 'EFFECTS' }
+];
+
+const option = (selected: boolean) =>
+  `px-4 py-1 border-2 border-slate-900 ${selected ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`;
+
+export const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, mixer, onChange, onMixerChange, onClose }) => {
+  const { graphics } = settings;
+  const setGraphics = (patch: Partial<GraphicsSettings>) => onChange({ ...settings, graphics: { ...graphics, ...patch } });
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-slate-100/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-[48rem] border-8 border-slate-900 p-10 bg-white shadow-2xl uppercase">
+        <h2 className="text-7xl font-bold mb-6 tracking-tighter text-slate-900 italic">Settings</h2>
+
+        <h3 className="text-xl text-slate-500 mb-2">Graphics</h3>
+        <div className="space-y-3 mb-6 text-2xl">
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-900">SHADOWS</span>
+            <div className="flex gap-2">
+              {[true, false].map(on => (
+                <button key={String(on)} onClick={() => setGraphics({ shadows: on })} className={option(graphics.shadows === on)}>{on ? 'ON' : 'OFF'}</button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-900">CONTACT SHADOWS</span>
+            <div className="flex gap-2">
+              {CONTACT_SHADOW_RESOLUTIONS.map(res => (
+                <button key={res} onClick={() => setGraphics({ contactShadowResolution: res })} className={option(graphics.contactShadowResolution === res)}>{res || 'OFF'}</button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="font-bold text-slate-900">ENVIRONMENT</span>
+            <div className="flex gap-2">
+              {[true, false].map(on => (
+                <button key={String(on)} onClick={() => setGraphics({ environment: on })} className={option(graphics.environment === on)}>{on ? 'ON' : 'OFF'}</button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <h3 className="text-xl text-slate-500 mb-2">Camera</h3>
+        <div className="flex gap-2 mb-6 text-2xl">
+          {CAMERA_MODES.map(mode => (
+            <button key={mode} onClick={() => onChange({ ...settings, camera: mode })} className={option(settings.camera === mode)}>{mode}</button>
+          ))}
+        </div>
+
+        <h3 className="text-xl text-slate-500 mb-2">Audio</h3>
+        <div className="flex items-center gap-6 mb-8 text-2xl">
+          <button
+            onClick={() => onMixerChange({ ...mixer, muted: !mixer.muted })}
+            className={`p-2 ${mixer.muted ? 'bg-red-600 text-white' : 'bg-slate-900 text-white hover:bg-blue-600'}`}
+            title={mixer.muted ? 'Unmute' : 'Mute'}
+          >
+            {mixer.muted ? <VolumeX size={22} /> : <Volume2 size={22} />}
+          </button>
+          {CHANNELS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-3 text-slate-700">
+              <span>{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={mixer[key]}
+                disabled={mixer.muted}
+                onChange={(e) => onMixerChange({ ...mixer, [key]: Number(e.target.value) })}
+                className="w-36 accent-blue-600"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end text-3xl font-bold">
+          <button onClick={onClose} className="px-8 py-3 border-4 border-slate-900 text-slate-700 hover:bg-slate-200">DONE</button>
+        </div>
+      </div>
+    </div>
+  );
+};
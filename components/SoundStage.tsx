@@ -0,0 +1,30 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Vector3 } from 'three';
+import { RobotData } from '../types';
+import { IMPACT_REPEAT_GAP } from '../constants';
+import { audioEngine } from '../audio/engine';
+import { useGameEvent } from '../hooks/useGameEvent';
+
+// Feeds the audio engine from inside the Canvas: the listener rides the follow
+// camera, motor voices track the robots, and impacts come off the event bus.
+export const SoundStage: React.FC<{ robots: RobotData[]; active: boolean }> = ({ robots, active }) => {
+  const forward = useRef(new Vector3());
+  const lastImpact = useRef<Record<string, number>>({});
+
+  useFrame(({ camera }) => {
+    camera.getWorldDirection(forward.current);
+    audioEngine.setListener(camera.position, forward.current);
+    audioEngine.updateRobots(active ? robots : []);
+  });
+
+  useGameEvent('collision', (event) => {
+    const pair = event.robotIds.join('|');
+    const since = event.time - (lastImpact.current[pair] ?? -Infinity);
+    if (since >= 0 && since < IMPACT_REPEAT_GAP) return; // Negative after a restart: the sim clock went back to 0
+    lastImpact.current[pair] = event.time;
+    audioEngine.impact(event.position[0], event.position[1], event.impulse);
+  });
+
+  return null;
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerspectiveCamera } from 'three';
+
+interface SplitScreenProps {
+  cameras: PerspectiveCamera[];
+}
+
+// Takes over rendering (positive priority) and draws the scene once per camera
+// into side-by-side viewports.
+export const SplitScreen: React.FC<SplitScreenProps> = ({ cameras }) => {
+  useFrame(({ gl, scene, size }) => {
+    const width = size.width / cameras.length;
+    gl.setScissorTest(true);
+    cameras.forEach((camera, i) => {
+      camera.aspect = width / size.height;
+      camera.updateProjectionMatrix();
+      gl.setViewport(i * width, 0, width, size.height);
+      gl.setScissor(i * width, 0, width, size.height);
+      gl.render(scene, camera);
+    });
+    gl.setScissorTest(false);
+    gl.setViewport(0, 0, size.width, size.height);
+  }, 1);
+
+  return null;
+};
@@ -1,5 +0,0 @@
-// myAI.ts
-export function generateResponse(input: string): string {
-    // This is your AI logic. For now, it just echoes your input.
-    return "You typed: " + input;
-}
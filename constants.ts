@@ -1,18 +1,190 @@
 
-export const ARENA_SIZE = 22; 
-export const WALL_GAP = 5; // The size of the corner openings
+import { BindingProfiles, Difficulty, RobotType, RobotStats, Loadout, CampaignRound, AudioMixer, Settings, CameraMode, GameConfig, PickupKind, GameType } from './types';
+
 export const ROBOT_RADIUS = 0.8;
 export const MAX_ROBOT_HEALTH = 100;
-export const MOVE_SPEED = 0.008; // Slightly slower acceleration for better control
-export const ENEMY_SPEED_MULT = 0.4; 
-export const TURN_SPEED = 0.08; // Slightly slower turn for a more deliberate feel
-export const FRICTION = 0.92; // More drag/weight so they stop sooner after being pushed
-export const KNOCKBACK_FORCE = 0.15; // Drastically reduced for a "slow push" feel
-export const WEAPON_DAMAGE = 15;
+export const PICKUP_RADIUS = 0.5;
+
+// Sim tuning for every match unless a mode or match overrides it (sim/config.ts).
+export const DEFAULT_GAME_CONFIG: GameConfig = {
+  moveSpeed: 0.008, // Slightly slower acceleration for better control
+  turnSpeed: 0.08, // Slightly slower turn for a more deliberate feel
+  enemySpeedMult: 0.4,
+  enemyTurnMult: 0.3,
+  friction: 0.92, // More drag/weight so they stop sooner after being pushed
+  liftedFriction: 0.985, // Near-frictionless slide while airborne
+  angularDamping: 0.9, // Per-tick decay of spin picked up from hits
+
+  // Collision response. Masses are relative to a 1.0 wedge; impulses are divided by mass.
+  knockbackForce: 0.15, // Drastically reduced for a "slow push" feel
+  chassisMass: { spinner: 0.8, wedge: 1, tank: 1.6 },
+  restitution: 0.3,
+  spinTransfer: 0.15, // Scales how much an off-centre push twists the target
+  spinInertia: 0.5, // Moment of inertia as a fraction of m * r^2
+  // Damage multipliers by where a robot is struck, relative to its own heading.
+  armorFacing: { front: 0.8, side: 1, rear: 1.5 },
+  wedgeFrontDeflect: 0.3, // Damage taken on a wedge's front plate
+  wedgeDeflectKnock: 0.5, // Knockback taken on the plate
+
+  // Spinner: the disc spins up while the weapon is held and loses energy on every hit.
+  weaponDamage: 15,
+  spinUpRate: 1 / 90, // Energy per tick while spinning up (~1.5s to full)
+  spinDownRate: 1 / 240, // Energy lost per tick once released
+  spinImpactDrain: 0.5,
+  spinnerKnock: 0.2,
+
+  // Wedge: a raised plate lifts anything in its frontal cone, killing its traction.
+  wedgeLiftCone: Math.PI / 4, // Half-angle either side of the nose
+  wedgeLiftTime: 0.6, // Seconds the victim is airborne
+  wedgeLiftCooldown: 1,
+  wedgeLiftKnock: 0.35,
+  wedgeLiftDamage: 5,
+  liftHeight: 1.2,
+
+  // Tank: a short ram charge with a long cooldown.
+  ramDuration: 0.4,
+  ramCooldown: 2.5,
+  ramThrust: 4, // Multiple of moveSpeed added per tick while charging
+  ramKnock: 0.3,
+  ramDamage: 10,
+
+  // Subsystems: hull damage also wears the part facing the hit (see sim/subsystems.ts).
+  componentDamage: 0.012, // Integrity lost per point of hull damage routed to a drive or weapon
+  armorWear: 0.015, // Integrity a panel loses per point of damage through it
+  brokenArmorPenalty: 0.5, // Extra hull damage through a fully stripped panel
+  drivePull: 0.5, // Veer from a lopsided drive, as a fraction of turnSpeed at full throttle
+  minTraction: 0.3, // Thrust a wrecked drive side still manages
+
+  // Pickups: spawned on open floor from the sim's RNG (see sim/pickups.ts).
+  pickupInterval: 8, // Seconds between spawns; 0 turns pickups off
+  pickupLimit: 2, // Most on the floor at once
+  pickupDuration: 8, // Seconds overdrive, shield and overcharge last
+  repairAmount: 0.25, // Share of max hull, and of each part, a repair kit restores
+  overdriveBoost: 1.5, // moveSpeed multiplier
+  shieldFactor: 0.4, // Share of incoming damage a shield lets through
+  overchargeFactor: 1.5, // Weapon damage and knockback multiplier
+
+  // King of the hill: the hill is a circle at the arena centre.
+  hillRadius: 3,
+  hillHoldTime: 30, // Seconds of uncontested holding to win
+
+  // Match clock: when it runs out the judges decide among the survivors (see sim/judges.ts).
+  matchTime: 0, // Seconds; 0 fights to the last robot
+  pitRelease: 30, // Seconds before the bell the release pits open; 0 keeps them shut
+  judgePoints: { damage: 5, aggression: 3, control: 3 } // Points each category splits between the survivors
+};
+
 export const ENEMY_COUNT = 3;
 
+// Chassis base ratings before garage allocation; each sums to 9.
+export const CHASSIS_STATS: Record<RobotType, RobotStats> = {
+  spinner: { armor: 3, speed: 3, power: 3 },
+  wedge: { armor: 3, speed: 4, power: 2 },
+  tank: { armor: 4, speed: 2, power: 3 }
+};
+export const STAT_BUDGET = 6; // Points spread across armor/speed/power in the garage
+export const STAT_MAX_ALLOCATION = 4; // Per-stat cap on allocated points
+export const STAT_MAX = 10;
+export const BALANCED_ALLOCATION: RobotStats = { armor: 2, speed: 2, power: 2 };
+
+export const PLAYER_PAINT = ['#facc15', '#38bdf8', '#a855f7', '#f472b6', '#f8fafc', '#14b8a6'];
+export const DEFAULT_LOADOUT: Loadout = { type: 'spinner', color: '#facc15', allocation: BALANCED_ALLOCATION };
+export const LOADOUT_STORAGE_KEY = 'botbash.loadout.v1';
+
+// Campaign bracket, easiest first. Hull damage carries over between rounds;
+// each win adds CAMPAIGN_REPAIR_PER_WIN hull points to the repair budget.
+export const CAMPAIGN_ROUNDS: CampaignRound[] = [
+  {
+    name: 'Qualifier',
+    arenaId: 'classic',
+    difficulty: 'easy',
+    enemies: [{ type: 'wedge', allocation: BALANCED_ALLOCATION }]
+  },
+  {
+    name: 'Quarter-final',
+    arenaId: 'landslide',
+    difficulty: 'normal',
+    enemies: [
+      { type: 'tank', allocation: BALANCED_ALLOCATION },
+      { type: 'spinner', allocation: BALANCED_ALLOCATION }
+    ]
+  },
+  {
+    name: 'Semi-final',
+    arenaId: 'foundry',
+    difficulty: 'normal',
+    enemies: [
+      { type: 'tank', allocation: { armor: 3, speed: 1, power: 2 } },
+      { type: 'wedge', allocation: { armor: 1, speed: 3, power: 2 } },
+      { type: 'spinner', allocation: BALANCED_ALLOCATION }
+    ]
+  },
+  {
+    name: 'Grand Final',
+    arenaId: 'classic',
+    difficulty: 'hard',
+    enemies: [
+      { type: 'tank', allocation: { armor: 4, speed: 1, power: 3 } },
+      { type: 'wedge', allocation: { armor: 2, speed: 4, power: 2 } },
+      { type: 'spinner', allocation: { armor: 2, speed: 2, power: 4 } }
+    ]
+  }
+];
+export const CAMPAIGN_REPAIR_PER_WIN = 40;
+export const CAMPAIGN_REPAIR_STEP = 10;
+export const CAMPAIGN_STORAGE_KEY = 'botbash.campaign.v1';
+
+// Match stats: a ring-out counts for whoever last hit the robot within this many seconds.
+export const RING_OUT_CREDIT_WINDOW = 3;
+export const STATS_SAMPLE_INTERVAL = 1;
+export const HISTORY_LIMIT = 50;
+export const HISTORY_STORAGE_KEY = 'botbash.history.v1';
+
+// Per-difficulty AI tuning. `speed`/`turn` scale config.enemySpeedMult/config.enemyTurnMult,
+// `aimTolerance` is how far off-heading (rad) a bot will still drive, and
+// `hesitation` is the per-tick chance a bot idles instead of acting.
+export const AI_DIFFICULTY: Record<Difficulty, { speed: number; turn: number; aimTolerance: number; spinUpRange: number; hesitation: number }> = {
+  easy: { speed: 0.75, turn: 0.7, aimTolerance: 0.35, spinUpRange: 3, hesitation: 0.3 },
+  normal: { speed: 1, turn: 1, aimTolerance: 0.5, spinUpRange: 4, hesitation: 0.05 },
+  hard: { speed: 1.3, turn: 1.5, aimTolerance: 0.7, spinUpRange: 5, hesitation: 0 }
+};
+
+// Audio
+export const DEFAULT_MIXER: AudioMixer = { master: 0.8, sfx: 0.8, muted: false };
+export const MIXER_STORAGE_KEY = 'botbash.audio.v1';
+export const MOTOR_BASE_HZ = 55;
+export const MOTOR_HZ_PER_SPEED = 600; // Added per unit/tick of velocity
+export const SPINNER_WHINE_HZ = [220, 1400]; // At zero and full disc energy
+export const IMPACT_FULL_IMPULSE = 0.9; // Knockback that plays an impact at full volume
+export const IMPACT_REPEAT_GAP = 0.15; // Seconds before the same pair can clang again
+
+// Online play. The relay is `npm run relay`; see server/relay.ts.
+export const RELAY_PORT = 8787;
+export const DEFAULT_RELAY_URL = `ws://localhost:${RELAY_PORT}`;
+export const MAX_ROOM_PLAYERS = 4;
+export const SNAPSHOT_INTERVAL_TICKS = 3; // Host broadcasts at 20 Hz
+export const REPLAY_KEYFRAME_INTERVAL = 5; // Sim seconds between the worlds a replay keeps for seeking
+export const INTERPOLATION_DELAY = 0.1; // Seconds guests render behind the newest snapshot
+export const PING_INTERVAL_MS = 1000;
+
+// Bot scripts (bots/). A script gets this long per tick before its answer is dropped.
+export const BOT_TICK_BUDGET_MS = 4;
+export const BOT_MAX_OVERRUNS = 30; // Consecutive over-budget ticks before the script is shut down
+export const BOT_WATCHDOG_MS = 2000; // Silence before a script is considered hung
+
+// How long hit feedback (sparks, HUD flash) shows, in seconds.
+export const HIT_SPARK_DURATION = 0.2;
+// The HUD redraws from the live world at most this often; the 3D scene updates every frame.
+export const HUD_REFRESH_MS = 100;
+
+// Physics runs at a fixed 60 Hz regardless of display refresh rate. The movement
+// values in DEFAULT_GAME_CONFIG are per-tick amounts at this rate.
+export const FIXED_TIMESTEP = 1 / 60;
+export const MAX_STEPS_PER_FRAME = 5; // Caps catch-up after a stall so we don't spiral
+
 export const ROBOT_COLORS = {
   PLAYER: '#facc15', 
+  PLAYER_TWO: '#38bdf8',
   ENEMY_SPINNER: '#ef4444',
   ENEMY_WEDGE: '#fb923c',
   ENEMY_TANK: '#22c55e',
@@ -20,3 +192,66 @@ export const ROBOT_COLORS = {
   WALL: '#475569', 
   WEAPON: '#cbd5e1'
 };
+
+export const PICKUP_COLORS: Record<PickupKind, string> = {
+  repair: '#22c55e',
+  overdrive: '#facc15',
+  shield: '#38bdf8',
+  overcharge: '#f43f5e'
+};
+
+export const DEFAULT_BINDINGS: BindingProfiles = {
+  solo: {
+    keyboard: {
+      forward: ['KeyW', 'ArrowUp'], reverse: ['KeyS', 'ArrowDown'],
+      left: ['KeyA', 'ArrowLeft'], right: ['KeyD', 'ArrowRight'], weapon: ['Space']
+    },
+    gamepad: { index: 0, weaponButton: 0 }
+  },
+  versus: [
+    {
+      keyboard: { forward: ['KeyW'], reverse: ['KeyS'], left: ['KeyA'], right: ['KeyD'], weapon: ['Space'] },
+      gamepad: { index: 0, weaponButton: 0 }
+    },
+    {
+      keyboard: { forward: ['ArrowUp'], reverse: ['ArrowDown'], left: ['ArrowLeft'], right: ['ArrowRight'], weapon: ['Enter'] },
+      gamepad: { index: 1, weaponButton: 0 }
+    }
+  ]
+};
+
+export const GAMEPAD_DEADZONE = 0.15;
+export const BINDINGS_STORAGE_KEY = 'botbash.bindings.v1';
+
+// Settings
+export const DEFAULT_SETTINGS: Settings = {
+  graphics: { shadows: true, contactShadowResolution: 1024, environment: true },
+  camera: 'chase'
+};
+export const CONTACT_SHADOW_RESOLUTIONS = [0, 256, 512, 1024];
+export const SETTINGS_STORAGE_KEY = 'botbash.settings.v1';
+
+// Game types
+export const GAME_TYPES: GameType[] = ['classic', 'ffa', 'teams2', 'teams3', 'koth'];
+export const GAME_TYPE_LABELS: Record<GameType, string> = {
+  classic: 'CLASSIC',
+  ffa: 'FREE-FOR-ALL',
+  teams2: '2V2',
+  teams3: '3V3',
+  koth: 'KING OF THE HILL'
+};
+// Team games paint every robot in its team's colour.
+export const TEAM_COLORS = ['#2563eb', '#dc2626'];
+export const TEAM_NAMES = ['BLUE', 'RED'];
+
+// Clock lengths offered on the start screen, in seconds; 0 is no clock.
+export const MATCH_TIMES = [0, 120, 180, 300];
+
+// Camera
+export const CAMERA_MODES: CameraMode[] = ['chase', 'tactical', 'orbit', 'broadcast'];
+export const DIRECTOR_MIN_SHOT = 2.5; // Sim seconds a broadcast shot holds before it may cut
+export const DIRECTOR_HEAT_DECAY = 3; // Sim seconds for a fight's activity to fade by 1/e
+// The final ring-out or KO replays in slow motion before the end screen.
+export const FINALE_LEAD = 2; // Sim seconds shown before the elimination
+export const FINALE_TAIL = 1; // ...and after it
+export const FINALE_SPEED = 0.25;
@@ -0,0 +1,21 @@
+export type EventHandler<T> = (payload: T) => void;
+
+export interface EventBus<Events extends Record<string, unknown>> {
+  /** Subscribes to one event type; returns the unsubscribe function. */
+  on: <K extends keyof Events>(type: K, handler: EventHandler<Events[K]>) => () => void;
+  emit: <K extends keyof Events>(type: K, payload: Events[K]) => void;
+}
+
+export const createEventBus = <Events extends Record<string, unknown>>(): EventBus<Events> => {
+  const handlers: { [K in keyof Events]?: Set<EventHandler<Events[K]>> } = {};
+  return {
+    on: (type, handler) => {
+      const set = handlers[type] ?? (handlers[type] = new Set());
+      set.add(handler);
+      return () => { set.delete(handler); };
+    },
+    emit: (type, payload) => {
+      handlers[type]?.forEach(handler => handler(payload));
+    }
+  };
+};
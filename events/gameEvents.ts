@@ -0,0 +1,16 @@
+import { GameState } from '../types';
+import { SimEvent, SimEventType } from '../sim/events';
+import { createEventBus } from './bus';
+
+export type GameEvents = { [K in SimEventType]: Extract<SimEvent, { type: K }> } & {
+  gameStateChanged: { from: GameState; to: GameState };
+};
+
+// App-wide bus. The simulation stays pure: GameLoop republishes each stepped
+// world's `events` here, and rendering, HUD and stats subscribe.
+export const gameEvents = createEventBus<GameEvents>();
+
+export const publishSimEvents = (events: SimEvent[]) => {
+  // Each event is published under its own `type`; the cast bridges the union to the mapped payload.
+  events.forEach(event => gameEvents.emit(event.type, event as GameEvents[typeof event.type]));
+};
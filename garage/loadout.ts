@@ -0,0 +1,23 @@
+import { Loadout, RobotStats } from '../types';
+import { DEFAULT_LOADOUT, LOADOUT_STORAGE_KEY, STAT_BUDGET, STAT_MAX_ALLOCATION } from '../constants';
+import { loadJson, saveJson } from '../settings/storage';
+
+export const STAT_KEYS: (keyof RobotStats)[] = ['armor', 'speed', 'power'];
+
+export const allocatedPoints = (allocation: RobotStats) => STAT_KEYS.reduce((sum, key) => sum + allocation[key], 0);
+
+export const isValidAllocation = (allocation: RobotStats) =>
+  STAT_KEYS.every(key => Number.isInteger(allocation[key]) && allocation[key] >= 0 && allocation[key] <= STAT_MAX_ALLOCATION) &&
+  allocatedPoints(allocation) <= STAT_BUDGET;
+
+export const isLoadout = (value: unknown): value is Loadout => {
+  if (!value || typeof value !== 'object') return false;
+  const { type, color, allocation } = value as Partial<Loadout>;
+  return (type === 'spinner' || type === 'wedge' || type === 'tank') &&
+    typeof color === 'string' && !!allocation && isValidAllocation(allocation);
+};
+
+export const loadLoadout = (): Loadout =>
+  loadJson(LOADOUT_STORAGE_KEY, isLoadout) ?? { ...DEFAULT_LOADOUT, allocation: { ...DEFAULT_LOADOUT.allocation } };
+
+export const saveLoadout = (loadout: Loadout) => saveJson(LOADOUT_STORAGE_KEY, loadout);
@@ -0,0 +1,10 @@
+import { useEffect, useRef } from 'react';
+import { GameEvents, gameEvents } from '../events/gameEvents';
+
+// Subscribes for the component's lifetime. The latest handler is always called,
+// so callers don't need to memoise it.
+export const useGameEvent = <K extends keyof GameEvents>(type: K, handler: (payload: GameEvents[K]) => void) => {
+  const latest = useRef(handler);
+  latest.current = handler;
+  useEffect(() => gameEvents.on(type, payload => latest.current(payload)), [type]);
+};
@@ -1,14 +1,19 @@
+import { useState, useEffect, useRef } from 'react';
 
-import { useState, useEffect } from 'react';
-
-const GAME_KEYS = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'KeyW', 'KeyA', 'KeyS', 'KeyD', 'Space'];
-
-export const useKeyboard = () => {
+// `gameKeys` are the bound control keys; their browser defaults (scrolling,
+// pressing a focused button) are suppressed only while `active` (during play),
+// so menus and overlays keep normal keyboard behaviour.
+export const useKeyboard = (gameKeys: string[], active: boolean) => {
   const [keys, setKeys] = useState<{ [key: string]: boolean }>({});
+  // Read from the listeners, so a rebind doesn't re-register them.
+  const suppressed = useRef(gameKeys);
+  suppressed.current = active ? gameKeys : [];
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (GAME_KEYS.includes(e.code)) {
+      // Leave text fields (lobby name, room code) alone so WASD and space still type.
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+      if (suppressed.current.includes(e.code) && !typing) {
         e.preventDefault();
       }
       setKeys((prev) => ({ ...prev, [e.code]: true }));
@@ -16,12 +21,21 @@ export const useKeyboard = () => {
     const handleKeyUp = (e: KeyboardEvent) => {
       setKeys((prev) => ({ ...prev, [e.code]: false }));
     };
+    // Keys released while another window has focus never send a keyup.
+    const releaseAll = () => setKeys({});
+    const handleVisibility = () => {
+      if (document.hidden) releaseAll();
+    };
 
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', releaseAll);
+    document.addEventListener('visibilitychange', handleVisibility);
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', releaseAll);
+      document.removeEventListener('visibilitychange', handleVisibility);
     };
   }, []);
 
@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { WorldStore } from '../store/worldStore';
+import { World } from '../sim/world';
+
+/**
+ * Re-renders the caller from the store's world: straight away when a new world
+ * is swapped in, and at most every `interval` ms while it's stepped in place.
+ * A null interval only follows swaps (for anything keyed on the roster).
+ */
+export const useWorldSnapshot = (store: WorldStore, interval: number | null): World => {
+  const [, setVersion] = useState(0);
+
+  useEffect(() => {
+    let last = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const refresh = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      last = performance.now();
+      setVersion(v => v + 1);
+    };
+    const unsubscribe = store.subscribe((replaced) => {
+      if (replaced) refresh();
+      else if (interval !== null && !timer) timer = setTimeout(refresh, Math.max(0, interval - (performance.now() - last)));
+    });
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [store, interval]);
+
+  return store.get();
+};
@@ -1,322 +1,724 @@
 
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactDOM from 'react-dom/client';
-import { Canvas, useFrame } from '@react-three/fiber';
-import { PerspectiveCamera, Stars, Environment, ContactShadows, Html } from '@react-three/drei';
-import { Vector3, Color, Mesh, Group } from 'three';
-import { Cpu, Swords } from 'lucide-react';
-
-// --- TYPES & ENUMS ---
-enum GameState {
-  START = 'START',
-  PLAYING = 'PLAYING',
-  GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
-}
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { PerspectiveCamera, Environment, ContactShadows, OrbitControls } from '@react-three/drei';
+import { Vector3, Camera, PerspectiveCamera as ThreePerspectiveCamera } from 'three';
+import { Cpu, Swords, Film, Download, Upload, Gamepad2, Trophy, BarChart3, Globe, FileCode, Settings as SettingsIcon, Video, FastForward } from 'lucide-react';
+import { World, WorldInputs, MatchOutcome, createWorld, stepWorldInPlace, getMatchOutcome } from './sim/world';
+import { Replay, createReplay, recordTick, getReplayInputs, createReplayWorld, seekReplay, serializeReplay, parseReplay, serializeRobot, deserializeRobot } from './sim/replay';
+import { ReplayControls, PlaybackState } from './components/ReplayControls';
+import { SplitScreen } from './components/SplitScreen';
+import { BindingsScreen } from './components/BindingsScreen';
+import { readControls, getGamepads } from './input/controls';
+import { loadBindings, saveBindings, describeKeys, describeDriveKeys, boundKeys } from './input/bindings';
+import { GarageScreen } from './components/GarageScreen';
+import { Arena } from './components/Arena';
+import { Robot } from './components/Robot';
+import { useKeyboard } from './hooks/useKeyboard';
+import { useWorldSnapshot } from './hooks/useWorldSnapshot';
+import { WorldStore, createWorldStore } from './store/worldStore';
+import { MatchHud } from './components/MatchHud';
+import { BracketScreen } from './components/BracketScreen';
+import { IntermissionScreen } from './components/IntermissionScreen';
+import { DecisionScreen } from './components/DecisionScreen';
+import { MatchReportPanel } from './components/MatchReportPanel';
+import { HistoryScreen } from './components/HistoryScreen';
+import { MatchTracker, createMatchTracker, trackStep, finishMatch } from './stats/matchStats';
+import { loadHistory, recordMatch } from './stats/history';
+import { gameEvents, publishSimEvents } from './events/gameEvents';
+import { useGameEvent } from './hooks/useGameEvent';
+import { SoundStage } from './components/SoundStage';
+import { MixerPanel } from './components/MixerPanel';
+import { audioEngine } from './audio/engine';
+import { loadMixer, saveMixer } from './audio/mixer';
+import { OnlineLobby } from './components/OnlineLobby';
+import { PauseMenu } from './components/PauseMenu';
+import { followRobot, orbitAround, createDirector, observeEvents, directShot } from './camera/cameraRig';
+import { SettingsScreen } from './components/SettingsScreen';
+import { loadSettings, saveSettings } from './settings/settings';
+import { BotScriptsScreen, ScriptSlot } from './components/BotScriptsScreen';
+import { BotScript, Brains, startBrains, stopBrains, brainInputs } from './bots/scripts';
+import { BrainStatus } from './bots/brainHost';
+import { sanitizeCommand } from './bots/sensors';
+import { NetStatus } from './components/NetStatus';
+import { NetClient, createNetClient } from './net/client';
+import { NetLink, OnlineLobby as Lobby, createNetLink, hostStep, sendGuestInput, isHost, robotIdFor } from './net/session';
+import { pushSnapshot, sampleSnapshots } from './net/snapshots';
+import { GamePayload } from './net/protocol';
+import { ARENAS, DEFAULT_ARENA, getArena } from './arenas';
+import { startRun, currentRound, completeRound, repairHull, loadRun, saveRun, clearRun } from './campaign/campaign';
+import { loadLoadout, saveLoadout } from './garage/loadout';
+import { resolveStats } from './sim/stats';
+import { createRobot } from './sim/roster';
+import { resolveGameConfig, parseGameConfig } from './sim/config';
+import { createRules, assignTeams, isTeamGame, teamSize } from './sim/rules';
+import { releaseTime } from './sim/clock';
+import { CAMPAIGN_ROUNDS, HIT_SPARK_DURATION, PLAYER_PAINT, PING_INTERVAL_MS, ENEMY_COUNT, FIXED_TIMESTEP, MAX_STEPS_PER_FRAME, ROBOT_COLORS, CAMERA_MODES, FINALE_LEAD, FINALE_TAIL, FINALE_SPEED, GAME_TYPES, GAME_TYPE_LABELS, TEAM_COLORS, TEAM_NAMES, DEFAULT_GAME_CONFIG, MATCH_TIMES } from './constants';
+import { GameState, RobotData, RobotType, MatchMode, BindingProfiles, Difficulty, Loadout, CampaignRun, MatchReport, AudioMixer, Settings, GameType } from './types';
 
-type RobotType = 'spinner' | 'wedge' | 'tank';
-
-interface RobotData {
-  id: string;
-  isPlayer: boolean;
-  position: Vector3;
-  velocity: Vector3;
-  rotation: number;
-  health: number;
-  maxHealth: number;
-  weaponActive: boolean;
-  isDead: boolean;
-  color: string;
-  type: RobotType;
-  stunnedUntil: number;
+// The slow-motion rerun of the final elimination, played from the match recording.
+interface Finale {
+  replay: Replay;
+  // Runs until this tick, then the end screen for `next` shows.
+  endTick: number;
+  focusId: string;
+  next: GameState;
 }
 
-// --- CONSTANTS ---
-const ARENA_SIZE = 22; 
-const WALL_GAP = 5;
-const ROBOT_RADIUS = 0.8;
-const MAX_ROBOT_HEALTH = 100;
-const MOVE_SPEED = 0.008; 
-const ENEMY_SPEED_MULT = 0.4; 
-const TURN_SPEED = 0.08; 
-const FRICTION = 0.92; 
-const KNOCKBACK_FORCE = 0.15; 
-const WEAPON_DAMAGE = 15;
-const ENEMY_COUNT = 3;
-
-const ROBOT_COLORS = {
-  PLAYER: '#facc15', 
-  ENEMY_SPINNER: '#ef4444',
-  ENEMY_WEDGE: '#fb923c',
-  ENEMY_TANK: '#22c55e',
-  ARENA: '#94a3b8', 
-  WALL: '#475569', 
-  WEAPON: '#cbd5e1'
-};
+// Memoised: the App re-renders for menus and HUD state, never per tick, and
+// none of that should reach the scene.
+const GameLoop = React.memo<{
+  store: WorldStore;
+  gameState: GameState;
+  mode: MatchMode;
+  bindings: BindingProfiles;
+  onMatchEnd: (outcome: MatchOutcome) => void;
+  recording: React.MutableRefObject<Replay | null>;
+  tracker: React.MutableRefObject<MatchTracker | null>;
+  replay: Replay | null;
+  playback: PlaybackState;
+  net: NetLink | null;
+  brains: React.MutableRefObject<Brains>;
+  settings: Settings;
+  finale: Finale | null;
+  onFinaleEnd: () => void;
+}>(({ store, gameState, mode, bindings, onMatchEnd, recording, tracker, replay, playback, net, brains, settings, finale, onFinaleEnd }) => {
+  const gameKeys = useMemo(() => boundKeys(bindings), [bindings]);
+  const keys = useKeyboard(gameKeys, gameState === GameState.PLAYING);
+  // Only a new roster re-renders the scene; robots move from their own frame callbacks.
+  const world = useWorldSnapshot(store, null);
+  const defaultCamera = useThree((state) => state.camera);
+  const secondCamera = useMemo(() => new ThreePerspectiveCamera(40, 1, 0.1, 1000), []);
+  const splitScreen = mode === 'versus' && (gameState === GameState.PLAYING || gameState === GameState.PAUSED) && !net;
+  const { graphics, camera: cameraMode } = settings;
+  const accumulator = useRef(0);
+  const alpha = useRef(0);
+  const simTime = useRef(store.get().time);
+  const director = useMemo(createDirector, []);
+  const orbit = useRef<React.ComponentRef<typeof OrbitControls>>(null);
+  const finaleRun = gameState === GameState.FINALE ? finale : null;
+  const orbiting = cameraMode === 'orbit' && !splitScreen && !finaleRun;
 
-// --- HOOKS ---
-const useKeyboard = () => {
-  const [keys, setKeys] = useState<{ [key: string]: boolean }>({});
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => setKeys((prev) => ({ ...prev, [e.code]: true }));
-    const handleKeyUp = (e: KeyboardEvent) => setKeys((prev) => ({ ...prev, [e.code]: false }));
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, []);
-  return keys;
-};
+  const publish = (events: World['events']) => {
+    publishSimEvents(events);
+    observeEvents(director, events);
+  };
 
-// --- COMPONENTS ---
+  // Split screen always follows both players. Otherwise the chosen mode frames
+  // the local robot, and the director takes over once it's out.
+  const aimCameras = (camera: Camera, shown: World, delta: number) => {
+    const [first, second] = net ? shown.robots.filter(r => r.id === net.localRobotId) : shown.robots.filter(r => r.isPlayer);
+    const focus = first && !first.isDead ? first : undefined;
+    if (finaleRun) {
+      directShot(director, camera, shown.robots, alpha.current, delta, shown.time, finaleRun.focusId);
+    } else if (splitScreen) {
+      const follow = cameraMode === 'tactical' ? 'tactical' : 'chase';
+      if (first) followRobot(camera, first, alpha.current, delta, follow);
+      if (second) followRobot(secondCamera, second, alpha.current, delta, follow);
+    } else if (cameraMode === 'orbit') {
+      if (orbit.current) orbitAround(orbit.current, camera, focus, alpha.current);
+    } else if (cameraMode === 'broadcast' || !focus) {
+      directShot(director, camera, shown.robots, alpha.current, delta, shown.time);
+    } else {
+      followRobot(camera, focus, alpha.current, delta, cameraMode);
+    }
+  };
 
-const Arena: React.FC = () => {
-  const wallWidth = ARENA_SIZE - WALL_GAP * 2;
-  return (
-    <group>
-      <mesh rotation={[-Math.PI / 2, 0, 0]} receiveShadow position={[0, -0.01, 0]}>
-        <planeGeometry args={[ARENA_SIZE, ARENA_SIZE]} />
-        <meshStandardMaterial color={ROBOT_COLORS.ARENA} roughness={0.7} metalness={0.2} />
-      </mesh>
-      <gridHelper args={[ARENA_SIZE, 12, '#64748b', '#cbd5e1']} position={[0, 0.01, 0]} />
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} rotation={[-Math.PI / 2, 0, 0]} position={[x * (ARENA_SIZE/2 - WALL_GAP/2), 0.02, z * (ARENA_SIZE/2 - WALL_GAP/2)]}>
-          <planeGeometry args={[WALL_GAP, WALL_GAP]} />
-          <meshStandardMaterial color="#1e293b" emissive="#ef4444" emissiveIntensity={0.5} />
-        </mesh>
-      ))}
-      <mesh position={[0, 1, -ARENA_SIZE / 2]}><boxGeometry args={[wallWidth, 2, 0.5]} /><meshStandardMaterial color={ROBOT_COLORS.WALL} /></mesh>
-      <mesh position={[0, 1, ARENA_SIZE / 2]}><boxGeometry args={[wallWidth, 2, 0.5]} /><meshStandardMaterial color={ROBOT_COLORS.WALL} /></mesh>
-      <mesh position={[-ARENA_SIZE / 2, 1, 0]}><boxGeometry args={[0.5, 2, wallWidth]} /><meshStandardMaterial color={ROBOT_COLORS.WALL} /></mesh>
-      <mesh position={[ARENA_SIZE / 2, 1, 0]}><boxGeometry args={[0.5, 2, wallWidth]} /><meshStandardMaterial color={ROBOT_COLORS.WALL} /></mesh>
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <React.Fragment key={i}>
-          <mesh position={[x * (ARENA_SIZE/2 - WALL_GAP), 1.5, z * ARENA_SIZE/2]}><boxGeometry args={[0.8, 3, 0.8]} /><meshStandardMaterial color="#991b1b" /></mesh>
-          <mesh position={[x * ARENA_SIZE/2, 1.5, z * (ARENA_SIZE/2 - WALL_GAP)]}><boxGeometry args={[0.8, 3, 0.8]} /><meshStandardMaterial color="#991b1b" /></mesh>
-        </React.Fragment>
-      ))}
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -5, 0]}>
-        <planeGeometry args={[200, 200]} />
-        <meshStandardMaterial color="#cbd5e1" />
-      </mesh>
-    </group>
-  );
-};
+  // Runs ahead of the Robot frame callbacks so they interpolate with this frame's alpha.
+  useFrame((state, delta) => {
+    const live = gameState === GameState.PLAYING;
+    const playbackReplay = gameState === GameState.REPLAY ? replay : finaleRun?.replay ?? null;
+    if (!live && !playbackReplay) return;
+    const pads = getGamepads();
 
-const Robot: React.FC<{ data: RobotData }> = ({ data }) => {
-  const weaponRef = useRef<Mesh>(null);
-  const sparkRef = useRef<Group>(null);
-  const turretRef = useRef<Group>(null);
+    // Online guests don't simulate: send input, then show the host's snapshots.
+    if (live && net?.role === 'guest') {
+      const now = performance.now() / 1000; // Same clock snapshots are stamped with on arrival
+      sendGuestInput(net, readControls(keys, bindings.solo, pads), now);
+      const sample = sampleSnapshots(net.buffer, now);
+      if (!sample) return;
+      store.adopt({ ...store.get(), robots: sample.robots, pickups: sample.pickups, tick: sample.tick, time: sample.time, events: sample.events });
+      const shown = store.get();
+      publish(sample.events);
+      if (tracker.current) trackStep(tracker.current, shown);
+      alpha.current = sample.alpha;
+      simTime.current = sample.renderTime;
+      aimCameras(state.camera, shown, delta);
+      if (sample.outcome) onMatchEnd(sample.outcome);
+      return;
+    }
 
-  useFrame((state, delta) => {
-    if (weaponRef.current) {
-      if (data.type === 'spinner') {
-        weaponRef.current.rotation.y += delta * (data.weaponActive ? 50 : 10);
-      } else if (data.type === 'wedge') {
-        const targetRot = data.weaponActive ? -Math.PI / 8 : -Math.PI / 4;
-        weaponRef.current.rotation.x += (targetRot - weaponRef.current.rotation.x) * 0.1;
+    const current = store.get();
+    if (live) {
+      const outcome = getMatchOutcome(current);
+      if (outcome) {
+        if (net) hostStep(net, current, outcome);
+        onMatchEnd(outcome);
+        return;
       }
     }
-    if (turretRef.current && data.type === 'tank') {
-        turretRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.2;
-    }
-    if (sparkRef.current && Date.now() / 1000 < data.stunnedUntil) {
-      sparkRef.current.visible = true;
-      sparkRef.current.scale.setScalar(1.2 + Math.sin(state.clock.elapsedTime * 30) * 0.3);
-      sparkRef.current.rotation.y += 0.5;
-    } else if (sparkRef.current) {
-      sparkRef.current.visible = false;
-    }
-  });
 
-  if (data.isDead) return null;
-
-  const color = data.isPlayer ? ROBOT_COLORS.PLAYER : 
-                data.type === 'spinner' ? ROBOT_COLORS.ENEMY_SPINNER : 
-                data.type === 'wedge' ? ROBOT_COLORS.ENEMY_WEDGE : ROBOT_COLORS.ENEMY_TANK;
-
-  return (
-    <group position={[data.position.x, 0, data.position.z]} rotation={[0, data.rotation, 0]}>
-      <group ref={sparkRef} visible={false} position={[0, 0.5, 0]}>
-        <mesh><icosahedronGeometry args={[ROBOT_RADIUS * 1.5, 0]} /><meshBasicMaterial color="#ffcc00" wireframe /></mesh>
-      </group>
-      {data.type === 'spinner' && (
-        <group>
-          <mesh castShadow receiveShadow position={[0, 0.3, 0]}><cylinderGeometry args={[ROBOT_RADIUS * 0.8, ROBOT_RADIUS, 0.5, 6]} /><meshStandardMaterial color={color} flatShading /></mesh>
-          <mesh position={[0, 0.6, 0]} rotation={[Math.PI / 2, 0, 0]}><torusGeometry args={[ROBOT_RADIUS * 0.7, 0.05, 4, 8]} /><meshStandardMaterial color="#222" flatShading /></mesh>
-          <mesh ref={weaponRef} position={[0, 0.35, 0]}>
-            <group>
-                <mesh><cylinderGeometry args={[ROBOT_RADIUS * 1.5, ROBOT_RADIUS * 1.5, 0.1, 8]} /><meshStandardMaterial color={ROBOT_COLORS.WEAPON} metalness={0.9} roughness={0.1} flatShading /></mesh>
-                {[0, 1, 2, 3].map(i => (
-                    <mesh key={i} position={[Math.cos(i * Math.PI / 2) * ROBOT_RADIUS * 1.5, 0, Math.sin(i * Math.PI / 2) * ROBOT_RADIUS * 1.5]} rotation={[0, -i * Math.PI / 2, 0]}>
-                        <boxGeometry args={[0.3, 0.1, 0.4]} /><meshStandardMaterial color="#555" flatShading />
-                    </mesh>
-                ))}
-            </group>
-          </mesh>
-        </group>
-      )}
-      {data.type === 'wedge' && (
-        <group>
-          <mesh castShadow receiveShadow position={[0, 0.3, -0.1]}><boxGeometry args={[ROBOT_RADIUS * 1.6, 0.5, ROBOT_RADIUS * 1.4]} /><meshStandardMaterial color={color} flatShading /></mesh>
-          {[-1, 1].map(side => (
-            <mesh key={side} position={[side * ROBOT_RADIUS * 0.9, 0.25, -0.1]} rotation={[0, 0, side * Math.PI / 6]}><boxGeometry args={[0.2, 0.6, ROBOT_RADIUS * 1.6]} /><meshStandardMaterial color="#333" flatShading /></mesh>
-          ))}
-          <mesh ref={weaponRef} position={[0, 0.1, ROBOT_RADIUS * 0.7]} rotation={[-Math.PI / 4, 0, 0]}><boxGeometry args={[ROBOT_RADIUS * 2, 0.1, ROBOT_RADIUS * 1.6]} /><meshStandardMaterial color="#666" metalness={0.7} flatShading /></mesh>
-        </group>
-      )}
-      {data.type === 'tank' && (
-        <group>
-          <mesh castShadow receiveShadow position={[0, 0.4, 0]}><boxGeometry args={[ROBOT_RADIUS * 2.2, 0.7, ROBOT_RADIUS * 2]} /><meshStandardMaterial color={color} flatShading /></mesh>
-          <group ref={turretRef} position={[0, 0.75, 0]}>
-            <mesh castShadow><boxGeometry args={[ROBOT_RADIUS * 1.4, 0.4, ROBOT_RADIUS * 1.4]} /><meshStandardMaterial color="#444" flatShading /></mesh>
-            {[-0.3, 0.3].map((off, i) => (
-                <mesh key={i} position={[off, 0, 0.8]} rotation={[Math.PI / 2, 0, 0]}><cylinderGeometry args={[0.12, 0.12, 1.2, 6]} /><meshStandardMaterial color="#111" /></mesh>
-            ))}
-          </group>
-        </group>
-      )}
-      <mesh position={[ROBOT_RADIUS * 0.6, 0.8, -ROBOT_RADIUS * 0.6]}><cylinderGeometry args={[0.02, 0.02, 1.2, 4]} /><meshStandardMaterial color="#111" /></mesh>
-      <mesh position={[ROBOT_RADIUS * 0.6, 1.4, -ROBOT_RADIUS * 0.6]}><sphereGeometry args={[0.08, 4, 4]} /><meshStandardMaterial color={data.isPlayer ? "cyan" : "red"} emissive={data.isPlayer ? "cyan" : "red"} emissiveIntensity={1} /></mesh>
-      {[[-1, -1], [1, -1], [-1, 1], [1, 1]].map(([x, z], i) => (
-        <mesh key={i} position={[x * (ROBOT_RADIUS + 0.15), 0.3, z * 0.6]} rotation={[0, 0, Math.PI / 2]}><cylinderGeometry args={[0.35, 0.35, 0.3, 8]} /><meshStandardMaterial color="#111" roughness={1} flatShading /></mesh>
-      ))}
-      <Html position={[0, 2.4, 0]} center distanceFactor={8}>
-        <div className="flex flex-col items-center gap-1 opacity-80 scale-75">
-          <div className="w-20 h-2 bg-black/80 border border-white/40 p-[1px] shadow-lg">
-            <div className={`h-full transition-all duration-300 ${ (data.health / data.maxHealth) > 0.5 ? 'bg-green-500' : (data.health / data.maxHealth) > 0.2 ? 'bg-yellow-500' : 'bg-red-600' }`} style={{ width: `${(data.health / data.maxHealth) * 100}%` }} />
-          </div>
-        </div>
-      </Html>
-    </group>
-  );
-};
-
-const GameLoop: React.FC<{
-  robots: RobotData[];
-  setRobots: React.Dispatch<React.SetStateAction<RobotData[]>>;
-  gameState: GameState;
-  setGameState: React.Dispatch<React.SetStateAction<GameState>>;
-}> = ({ robots, setRobots, gameState, setGameState }) => {
-  const keys = useKeyboard();
-
-  useFrame((state) => {
-    if (gameState !== GameState.PLAYING) return;
-    const now = state.clock.getElapsedTime();
-    const updatedRobots = robots.map(r => ({ ...r, velocity: r.velocity.clone(), position: r.position.clone() }));
-    const player = updatedRobots.find(r => r.isPlayer);
-    if (!player || player.isDead) { setGameState(GameState.GAME_OVER); return; }
-    if (updatedRobots.filter(r => !r.isPlayer && !r.isDead).length === 0) { setGameState(GameState.VICTORY); return; }
-
-    updatedRobots.forEach(bot => {
-      if (bot.isDead) return;
-      if (now >= bot.stunnedUntil) {
-        if (bot.isPlayer) {
-          if (keys['ArrowLeft'] || keys['KeyA']) bot.rotation += TURN_SPEED;
-          if (keys['ArrowRight'] || keys['KeyD']) bot.rotation -= TURN_SPEED;
-          const forward = new Vector3(Math.sin(bot.rotation), 0, Math.cos(bot.rotation));
-          if (keys['ArrowUp'] || keys['KeyW']) bot.velocity.add(forward.multiplyScalar(MOVE_SPEED));
-          if (keys['ArrowDown'] || keys['KeyS']) bot.velocity.add(forward.multiplyScalar(-MOVE_SPEED));
-          if (keys['Space'] && !bot.weaponActive) bot.weaponActive = true;
-        } else {
-          const dirToPlayer = player.position.clone().sub(bot.position).normalize();
-          const angleToPlayer = Math.atan2(dirToPlayer.x, dirToPlayer.z);
-          let diff = angleToPlayer - bot.rotation;
-          while (diff < -Math.PI) diff += Math.PI * 2;
-          while (diff > Math.PI) diff -= Math.PI * 2;
-          bot.rotation += Math.sign(diff) * Math.min(Math.abs(diff), TURN_SPEED * 0.3);
-          if (Math.abs(diff) < 0.5) {
-            const forward = new Vector3(Math.sin(bot.rotation), 0, Math.cos(bot.rotation));
-            bot.velocity.add(forward.multiplyScalar(MOVE_SPEED * ENEMY_SPEED_MULT));
-          }
-          if (bot.type === 'spinner' && Math.random() < 0.005) bot.weaponActive = true;
-        }
-      }
-      bot.position.add(bot.velocity);
-      bot.velocity.multiplyScalar(FRICTION);
-      const halfSize = ARENA_SIZE / 2;
-      const wallRange = halfSize - WALL_GAP;
-      if (Math.abs(bot.position.z) < wallRange) {
-        if (bot.position.x > halfSize - ROBOT_RADIUS) { bot.position.x = halfSize - ROBOT_RADIUS; bot.velocity.x *= -0.3; }
-        else if (bot.position.x < -halfSize + ROBOT_RADIUS) { bot.position.x = -halfSize + ROBOT_RADIUS; bot.velocity.x *= -0.3; }
-      }
-      if (Math.abs(bot.position.x) < wallRange) {
-        if (bot.position.z > halfSize - ROBOT_RADIUS) { bot.position.z = halfSize - ROBOT_RADIUS; bot.velocity.z *= -0.3; }
-        else if (bot.position.z < -halfSize + ROBOT_RADIUS) { bot.position.z = -halfSize + ROBOT_RADIUS; bot.velocity.z *= -0.3; }
-      }
-      if (Math.abs(bot.position.x) > halfSize + 0.5 || Math.abs(bot.position.z) > halfSize + 0.5) { bot.isDead = true; bot.health = 0; }
-    });
+    const inputs: WorldInputs = {};
+    if (net) {
+      Object.assign(inputs, net.remoteInputs);
+      inputs[net.localRobotId] = readControls(keys, bindings.solo, pads);
+    } else {
+      current.robots.filter(r => r.isPlayer).forEach((r, i) => {
+        inputs[r.id] = readControls(keys, mode === 'versus' ? bindings.versus[i] : bindings.solo, pads);
+      });
+    }
 
-    for (let i = 0; i < updatedRobots.length; i++) {
-      for (let j = i + 1; j < updatedRobots.length; j++) {
-        const r1 = updatedRobots[i], r2 = updatedRobots[j];
-        if (r1.isDead || r2.isDead) continue;
-        const dist = r1.position.distanceTo(r2.position);
-        if (dist < ROBOT_RADIUS * 2.1) {
-          const normal = r1.position.clone().sub(r2.position).normalize();
-          const overlap = ROBOT_RADIUS * 2.1 - dist;
-          r1.position.add(normal.clone().multiplyScalar(overlap * 0.4));
-          r2.position.add(normal.clone().multiplyScalar(-overlap * 0.4));
-          let knock = KNOCKBACK_FORCE, d1 = 1, d2 = 1;
-          if (r1.weaponActive && r1.type === 'spinner') { knock += 0.2; d2 += WEAPON_DAMAGE; }
-          if (r2.weaponActive && r2.type === 'spinner') { knock += 0.2; d1 += WEAPON_DAMAGE; }
-          r1.velocity.add(normal.clone().multiplyScalar(knock));
-          r2.velocity.add(normal.clone().multiplyScalar(-knock));
-          r1.health = Math.max(0, r1.health - d1);
-          r2.health = Math.max(0, r2.health - d2);
-          r1.stunnedUntil = now + 0.2; r2.stunnedUntil = now + 0.2;
-          if (r1.health <= 0) r1.isDead = true;
-          if (r2.health <= 0) r2.isDead = true;
-        }
+    const speed = finaleRun ? FINALE_SPEED : playbackReplay ? (playback.paused ? 0 : playback.speed) : 1;
+    accumulator.current = Math.min(accumulator.current + delta * speed, FIXED_TIMESTEP * MAX_STEPS_PER_FRAME * Math.max(1, speed));
+    let stepped = false;
+    while (accumulator.current >= FIXED_TIMESTEP) {
+      if (playbackReplay) {
+        // The finale runs a little past the recording; the last inputs just carry on.
+        if (current.tick >= (finaleRun ? finaleRun.endTick : playbackReplay.tickCount)) { accumulator.current = 0; break; }
+        stepWorldInPlace(current, getReplayInputs(playbackReplay, current.tick), FIXED_TIMESTEP);
+        publish(current.events);
+      } else {
+        // Scripted robots get fresh sensors every tick, so their inputs are per tick too.
+        const tickInputs = { ...inputs, ...brainInputs(brains.current, current) };
+        stepWorldInPlace(current, tickInputs, FIXED_TIMESTEP);
+        if (recording.current) recordTick(recording.current, tickInputs);
+        publish(current.events);
+        if (tracker.current) trackStep(tracker.current, current);
+        if (net) hostStep(net, current);
       }
+      stepped = true;
+      accumulator.current -= FIXED_TIMESTEP;
     }
+    alpha.current = accumulator.current / FIXED_TIMESTEP;
+    simTime.current = current.time + (alpha.current - 1) * FIXED_TIMESTEP;
 
-    const cameraTarget = new Vector3(player.position.x - Math.sin(player.rotation) * 10, 8, player.position.z - Math.cos(player.rotation) * 10);
-    state.camera.position.lerp(cameraTarget, 0.08);
-    state.camera.lookAt(player.position.x, 0.5, player.position.z);
-    updatedRobots.forEach(bot => { if (bot.weaponActive && Math.random() < 0.04) bot.weaponActive = false; });
-    setRobots(updatedRobots);
-  });
+    aimCameras(state.camera, current, delta);
+    if (stepped) store.touch();
+    if (finaleRun && current.tick >= finaleRun.endTick) onFinaleEnd();
+  }, -1);
 
   return (
     <>
       <color attach="background" args={['#e2e8f0']} />
-      <Arena />
-      {robots.map((robot) => <Robot key={robot.id} data={robot} />)}
-      <Environment preset="warehouse" />
-      <ContactShadows resolution={1024} scale={ARENA_SIZE * 1.5} blur={2} opacity={0.4} far={10} color="#000" />
+      <Arena arena={world.arena} store={store} time={simTime} hillRadius={world.rules.type === 'koth' ? world.config.hillRadius : null} releaseAt={releaseTime(world.config)} />
+      {world.robots.map((robot) => (
+        <Robot
+          key={robot.id} data={robot} alpha={alpha} showLabel={!splitScreen}
+          teamColor={isTeamGame(world.rules.type) ? TEAM_COLORS[robot.team % TEAM_COLORS.length] : undefined}
+        />
+      ))}
+      <SoundStage robots={world.robots} active={gameState === GameState.PLAYING || gameState === GameState.REPLAY || gameState === GameState.FINALE} />
+      {orbiting && <OrbitControls ref={orbit} enablePan={false} minDistance={4} maxDistance={40} maxPolarAngle={Math.PI / 2.2} />}
+      {splitScreen && <SplitScreen cameras={[defaultCamera as ThreePerspectiveCamera, secondCamera]} />}
+      {graphics.environment && <Environment preset="warehouse" />}
+      {graphics.contactShadowResolution > 0 && <ContactShadows resolution={graphics.contactShadowResolution} scale={world.arena.size * 1.5} blur={2} opacity={0.4} far={10} color="#000" />}
       <ambientLight intensity={0.7} />
-      <directionalLight position={[10, 20, 10]} intensity={1.2} castShadow />
+      <directionalLight position={[10, 20, 10]} intensity={1.2} castShadow={graphics.shadows} />
     </>
   );
+});
+
+const AI_TYPES: RobotType[] = ['tank', 'wedge', 'spinner'];
+
+const createSoloRoster = (loadout: Loadout, playerAt = new Vector3(0, 0, 0), playerRotation = 0): RobotData[] => {
+  const roster = [createRobot('player', true, loadout.type, loadout.color, playerAt, playerRotation, resolveStats(loadout.type, loadout.allocation))];
+  for (let i = 0; i < ENEMY_COUNT; i++) {
+    const angle = (i / ENEMY_COUNT) * Math.PI * 2, dist = 6;
+    roster.push(createRobot(`enemy-${i}`, false, AI_TYPES[i % AI_TYPES.length], '#ef4444', new Vector3(Math.cos(angle) * dist, 0, Math.sin(angle) * dist), Math.PI + angle));
+  }
+  return roster;
+};
+
+// Damage carries over: the player starts the round on the run's banked hull.
+const createCampaignRoster = (run: CampaignRun): RobotData[] => {
+  const { loadout } = run;
+  const player = createRobot('player', true, loadout.type, loadout.color, new Vector3(0, 0, 0), 0, resolveStats(loadout.type, loadout.allocation));
+  player.health = Math.min(run.hull, player.maxHealth);
+  const { enemies } = currentRound(run);
+  return assignTeams([player, ...enemies.map((enemy, i) => {
+    const angle = (i / enemies.length) * Math.PI * 2, dist = 6;
+    return createRobot(`enemy-${i}`, false, enemy.type, '#ef4444', new Vector3(Math.cos(angle) * dist, 0, Math.sin(angle) * dist), Math.PI + angle, resolveStats(enemy.type, enemy.allocation));
+  })], 'classic');
+};
+
+// Head-to-head: the two players spawn facing each other across the centre line.
+// Outside classic two AI robots join from the other two sides.
+const createVersusRoster = (withBots: boolean): RobotData[] => [
+  createRobot('player-1', true, 'spinner', ROBOT_COLORS.PLAYER, new Vector3(-6, 0, 0), Math.PI / 2),
+  createRobot('player-2', true, 'spinner', ROBOT_COLORS.PLAYER_TWO, new Vector3(6, 0, 0), -Math.PI / 2),
+  ...(withBots ? [
+    createRobot('enemy-0', false, 'tank', '#ef4444', new Vector3(0, 0, -6), 0),
+    createRobot('enemy-1', false, 'wedge', '#ef4444', new Vector3(0, 0, 6), Math.PI)
+  ] : [])
+];
+
+// Two lines facing each other across the centre, a player in the middle of
+// each line (solo: only blue's) and AI filling the rest.
+const createTeamRoster = (mode: MatchMode, size: number, loadout: Loadout): RobotData[] => [0, 1].flatMap(team =>
+  Array.from({ length: size }, (_, slot) => {
+    const position = new Vector3(team === 0 ? -6 : 6, 0, (slot - (size - 1) / 2) * 3);
+    const rotation = team === 0 ? Math.PI / 2 : -Math.PI / 2;
+    const lead = slot === Math.floor((size - 1) / 2);
+    if (lead && mode === 'versus') return { ...createRobot(`player-${team + 1}`, true, 'spinner', team === 0 ? ROBOT_COLORS.PLAYER : ROBOT_COLORS.PLAYER_TWO, position, rotation), team };
+    if (lead && team === 0) return { ...createRobot('player', true, loadout.type, loadout.color, position, rotation, resolveStats(loadout.type, loadout.allocation)), team };
+    return { ...createRobot(`${TEAM_NAMES[team].toLowerCase()}-${slot}`, false, AI_TYPES[(slot + team) % AI_TYPES.length], '#ef4444', position, rotation), team };
+  })
+);
+
+const createRoster = (mode: MatchMode, type: GameType, loadout: Loadout): RobotData[] => {
+  if (isTeamGame(type)) return createTeamRoster(mode, teamSize(type), loadout);
+  if (mode === 'versus') return assignTeams(createVersusRoster(type !== 'classic'), type);
+  // Nobody starts on the hill.
+  return assignTeams(type === 'koth' ? createSoloRoster(loadout, new Vector3(-6, 0, 0), Math.PI / 2) : createSoloRoster(loadout), type);
+};
+
+// AI robots are labelled from their ids: "enemy-0" is ENEMY 1.
+const aiLabel = (id: string) => {
+  const [name, index] = id.split('-');
+  return `${name.toUpperCase()} ${Number(index) + 1}`;
+};
+
+// Which robots a script can be loaded for.
+const scriptSlots = (robots: RobotData[]): ScriptSlot[] => {
+  const players = robots.filter(r => r.isPlayer);
+  return robots.map(r => r.isPlayer
+    ? { robotId: r.id, label: players.length > 1 ? `PLAYER ${players.indexOf(r) + 1}` : 'PLAYER', fallback: 'Keyboard / gamepad' }
+    : { robotId: r.id, label: aiLabel(r.id), fallback: 'Built-in AI' });
+};
+
+const playerLabel = (robots: RobotData[], id: string | null) => {
+  const robot = robots.find(r => r.id === id);
+  if (!robot) return 'NOBODY';
+  return robot.isPlayer ? `PLAYER ${robots.filter(r => r.isPlayer).indexOf(robot) + 1}` : aiLabel(robot.id);
+};
+
+const goalFor = (mode: MatchMode, type: GameType) => {
+  if (type === 'ffa') return 'EVERY ROBOT FOR ITSELF';
+  if (type === 'koth') return `HOLD THE HILL FOR ${DEFAULT_GAME_CONFIG.hillHoldTime}S`;
+  if (isTeamGame(type)) return 'LAST TEAM STANDING';
+  return mode === 'solo' ? 'OUTLAST THEM ALL' : 'LAST ROBOT STANDING';
 };
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
-  const [robots, setRobots] = useState<RobotData[]>([]);
-
-  const initGame = useCallback(() => {
-    const initialRobots: RobotData[] = [{
-        id: 'player', isPlayer: true, position: new Vector3(0, 0, 0), velocity: new Vector3(0, 0, 0),
-        rotation: 0, health: MAX_ROBOT_HEALTH, maxHealth: MAX_ROBOT_HEALTH, weaponActive: false,
-        isDead: false, color: ROBOT_COLORS.PLAYER, type: 'spinner', stunnedUntil: 0
-    }];
-    const types: RobotType[] = ['tank', 'wedge', 'spinner'];
-    for (let i = 0; i < ENEMY_COUNT; i++) {
-      const angle = (i / ENEMY_COUNT) * Math.PI * 2, dist = 6;
-      initialRobots.push({
-        id: `enemy-${i}`, isPlayer: false, position: new Vector3(Math.cos(angle) * dist, 0, Math.sin(angle) * dist),
-        velocity: new Vector3(0, 0, 0), rotation: Math.PI + angle, health: MAX_ROBOT_HEALTH, maxHealth: MAX_ROBOT_HEALTH,
-        weaponActive: false, isDead: false, color: '#ef4444', type: types[i % types.length], stunnedUntil: 0
-      });
+  // The world lives outside React state; GameLoop steps it and the HUD polls it.
+  const store = useMemo(() => createWorldStore(createWorld([], 0, DEFAULT_ARENA)), []);
+  const recording = useRef<Replay | null>(null);
+  const tracker = useRef<MatchTracker | null>(null);
+  const [report, setReport] = useState<MatchReport | null>(null);
+  const [history, setHistory] = useState<MatchReport[]>(loadHistory);
+  const [showHistory, setShowHistory] = useState(false);
+  const previousState = useRef(gameState);
+  // Sim time each robot last took damage, for the HUD hull flash.
+  const lastDamaged = useRef<Record<string, number>>({});
+  // The latest ring-out or KO this match, for the slow-motion finale.
+  const lastElimination = useRef<{ robotId: string; tick: number } | null>(null);
+  const [finale, setFinale] = useState<Finale | null>(null);
+
+  useEffect(() => {
+    if (previousState.current === gameState) return;
+    const resumed = previousState.current === GameState.PAUSED;
+    if ((gameState === GameState.PLAYING && !resumed) || gameState === GameState.REPLAY) {
+      lastDamaged.current = {};
+      lastElimination.current = null;
     }
-    setRobots(initialRobots);
+    gameEvents.emit('gameStateChanged', { from: previousState.current, to: gameState });
+    previousState.current = gameState;
+  }, [gameState]);
+
+  useGameEvent('damage', (event) => { lastDamaged.current[event.targetId] = event.time; });
+  const eliminated = (robotId: string, time: number) => {
+    if (gameState === GameState.PLAYING) lastElimination.current = { robotId, tick: Math.round(time / FIXED_TIMESTEP) };
+  };
+  useGameEvent('ringOut', (event) => eliminated(event.robotId, event.time));
+  useGameEvent('destroyed', (event) => eliminated(event.robotId, event.time));
+
+  const [mixer, setMixer] = useState<AudioMixer>(loadMixer);
+  useEffect(() => audioEngine.setMixer(mixer), [mixer]);
+  const changeMixer = useCallback((next: AudioMixer) => {
+    saveMixer(next);
+    setMixer(next);
+  }, []);
+
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [showSettings, setShowSettings] = useState(false);
+  const changeSettings = useCallback((next: Settings) => {
+    saveSettings(next);
+    setSettings(next);
+  }, []);
+
+  // Browsers only allow audio to start from a user gesture.
+  useEffect(() => {
+    const unlock = () => audioEngine.unlock();
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  useGameEvent('gameStateChanged', ({ to }) => {
+    if (to === GameState.VICTORY) audioEngine.cue('victory');
+    else if (to === GameState.GAME_OVER) audioEngine.cue('defeat');
+  });
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [playback, setPlayback] = useState<PlaybackState>({ paused: false, speed: 1 });
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [mode, setMode] = useState<MatchMode>('solo');
+  const [difficulty, setDifficulty] = useState<Difficulty>('normal');
+  const [arenaId, setArenaId] = useState(DEFAULT_ARENA.id);
+  const [gameType, setGameType] = useState<GameType>('classic');
+  const [friendlyFire, setFriendlyFire] = useState(false);
+  const [outcome, setOutcome] = useState<MatchOutcome | null>(null);
+  const [matchTime, setMatchTime] = useState(180);
+  const [pitRelease, setPitRelease] = useState(false);
+  // Where the decision screen leads once it's dismissed.
+  const [afterDecision, setAfterDecision] = useState<GameState | null>(null);
+  const [bindings, setBindings] = useState<BindingProfiles>(loadBindings);
+  const [showBindings, setShowBindings] = useState(false);
+  const [loadout, setLoadout] = useState<Loadout>(loadLoadout);
+  const [campaign, setCampaign] = useState<CampaignRun | null>(loadRun);
+  // Set while a campaign round (or the garage before a new run) is in progress.
+  const [inCampaign, setInCampaign] = useState(false);
+  const netClient = useRef<NetClient | null>(null);
+  const [lobby, setLobby] = useState<Lobby | null>(null);
+  // Only set during an online match; GameLoop runs as host or guest when present.
+  const [netLink, setNetLink] = useState<NetLink | null>(null);
+  const [showLobby, setShowLobby] = useState(false);
+  const [connecting, setConnecting] = useState(false);
+  const [netError, setNetError] = useState<string | null>(null);
+  const lastLatency = useRef<number | null>(null);
+  const [scripts, setScripts] = useState<Record<string, BotScript>>({});
+  const [showScripts, setShowScripts] = useState(false);
+  const brains = useRef<Brains>({});
+  const [brainStatus, setBrainStatus] = useState<Record<string, BrainStatus>>({});
+
+  // Every match starts its scripts fresh; online matches never run any.
+  const runBrains = useCallback((roster: RobotData[]) => {
+    stopBrains(brains.current);
+    setBrainStatus({});
+    brains.current = startBrains(scripts, roster, (id, status) => setBrainStatus(prev => ({ ...prev, [id]: status })));
+  }, [scripts]);
+
+  useEffect(() => () => stopBrains(brains.current), []);
+
+  const changeScript = useCallback((robotId: string, script: BotScript | null) => {
+    setScripts(prev => {
+      const next = { ...prev };
+      if (script) next[robotId] = script; else delete next[robotId];
+      return next;
+    });
+  }, []);
+
+  const clockConfig = useMemo(() => ({ matchTime, pitRelease: pitRelease ? DEFAULT_GAME_CONFIG.pitRelease : 0 }), [matchTime, pitRelease]);
+
+  const initGame = useCallback((build: Loadout = loadout) => {
+    const initialRobots = createRoster(mode, gameType, build);
+    const initialWorld = createWorld(initialRobots, Date.now(), getArena(arenaId), difficulty, resolveGameConfig(clockConfig), createRules(gameType, friendlyFire));
+    recording.current = createReplay(initialWorld);
+    tracker.current?.dispose();
+    tracker.current = createMatchTracker(initialWorld, mode);
+    runBrains(initialRobots);
+    setNetLink(null);
+    setOutcome(null);
+    store.replace(initialWorld);
+    setGameState(GameState.PLAYING);
+  }, [mode, gameType, friendlyFire, clockConfig, difficulty, arenaId, loadout, runBrains, store]);
+
+  const fightRound = useCallback((run: CampaignRun) => {
+    const round = currentRound(run);
+    const initialWorld = createWorld(createCampaignRoster(run), Date.now(), getArena(round.arenaId), round.difficulty, resolveGameConfig(round.config));
+    recording.current = createReplay(initialWorld);
+    tracker.current?.dispose();
+    tracker.current = createMatchTracker(initialWorld, 'solo');
+    runBrains(initialWorld.robots);
+    setNetLink(null);
+    setMode('solo');
+    setInCampaign(true);
+    setOutcome(null);
+    store.replace(initialWorld);
     setGameState(GameState.PLAYING);
+  }, [runBrains, store]);
+
+  const newCampaign = useCallback(() => {
+    setMode('solo');
+    setInCampaign(true);
+    setGameState(GameState.GARAGE);
   }, []);
 
-  const playerBot = robots.find(r => r.isPlayer);
+  const updateCampaign = useCallback((run: CampaignRun | null) => {
+    if (run) saveRun(run); else clearRun();
+    setCampaign(run);
+  }, []);
+
+  const deploy = useCallback((build: Loadout) => {
+    saveLoadout(build);
+    setLoadout(build);
+    if (inCampaign) {
+      updateCampaign(startRun(build));
+      setGameState(GameState.BRACKET);
+    } else {
+      initGame(build);
+    }
+  }, [initGame, inCampaign, updateCampaign]);
+
+  // Reruns the last ring-out or KO in slow motion before moving on to `next`.
+  // Online matches skip it: everyone else is already on the end screen.
+  const playFinale = useCallback((next: GameState) => {
+    const elimination = lastElimination.current;
+    const replay = recording.current;
+    if (!elimination || !replay || netLink) {
+      setGameState(next);
+      return;
+    }
+    setFinale({ replay, next, focusId: elimination.robotId, endTick: elimination.tick + Math.round(FINALE_TAIL / FIXED_TIMESTEP) });
+    store.replace(seekReplay(replay, elimination.tick - Math.round(FINALE_LEAD / FIXED_TIMESTEP)));
+    setGameState(GameState.FINALE);
+  }, [netLink, store]);
+
+  const endFinale = useCallback(() => {
+    if (!finale) return;
+    setFinale(null);
+    setGameState(finale.next);
+  }, [finale]);
+
+  const endMatch = useCallback((result: MatchOutcome) => {
+    const world = store.get();
+    const won = netLink
+      ? result.winnerId === netLink.localRobotId
+      : world.robots.some(r => r.isPlayer && r.team === result.winningTeam);
+    setOutcome(result);
+    // A decision has no final blow to rerun; the judges' scores come first instead.
+    const conclude = (next: GameState) => {
+      if (!result.decision) return playFinale(next);
+      setAfterDecision(next);
+      setGameState(GameState.DECISION);
+    };
+    if (tracker.current) {
+      const finished = finishMatch(tracker.current, world, result);
+      tracker.current = null;
+      setReport(finished);
+      setHistory(h => recordMatch(h, finished));
+    }
+    if (inCampaign && campaign) {
+      const player = world.robots.find(r => r.isPlayer);
+      if (!won || !player) {
+        updateCampaign(null);
+        conclude(GameState.GAME_OVER);
+        return;
+      }
+      const next = completeRound(campaign, player.health);
+      if (next.round >= CAMPAIGN_ROUNDS.length) {
+        updateCampaign(null);
+        conclude(GameState.VICTORY);
+      } else {
+        updateCampaign(next);
+        conclude(GameState.INTERMISSION);
+      }
+      return;
+    }
+    conclude(won ? GameState.VICTORY : GameState.GAME_OVER);
+  }, [store, inCampaign, campaign, updateCampaign, netLink, playFinale]);
+
+  const toMenu = useCallback(() => {
+    tracker.current?.dispose();
+    tracker.current = null;
+    stopBrains(brains.current);
+    brains.current = {};
+    setBrainStatus({});
+    setInCampaign(false);
+    setNetLink(null);
+    setGameState(GameState.START);
+  }, []);
+
+  const restart = useCallback(() => {
+    if (inCampaign && campaign) fightRound(campaign);
+    else initGame();
+  }, [inCampaign, campaign, fightRound, initGame]);
+
+  // Escape toggles the pause menu and losing focus pauses. Online matches run on
+  // the host's clock, so they never pause.
+  useEffect(() => {
+    if ((gameState !== GameState.PLAYING && gameState !== GameState.PAUSED) || netLink) return;
+    const pause = () => setGameState(s => s === GameState.PLAYING ? GameState.PAUSED : s);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Escape' || e.repeat) return;
+      if (showSettings) setShowSettings(false);
+      else setGameState(s => s === GameState.PLAYING ? GameState.PAUSED : GameState.PLAYING);
+    };
+    const handleVisibility = () => {
+      if (document.hidden) pause();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('blur', pause);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('blur', pause);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [gameState, netLink, showSettings]);
+
+  // C cycles the camera during a match or replay; the choice is saved with the other settings.
+  useEffect(() => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.REPLAY) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'KeyC' || e.repeat) return;
+      changeSettings({ ...settings, camera: CAMERA_MODES[(CAMERA_MODES.indexOf(settings.camera) + 1) % CAMERA_MODES.length] });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [gameState, settings, changeSettings]);
+
+  const leaveOnline = useCallback((reason?: string) => {
+    netClient.current?.close();
+    netClient.current = null;
+    lastLatency.current = null;
+    setLobby(null);
+    setNetLink(null);
+    setConnecting(false);
+    setNetError(reason ?? null);
+    if (reason) {
+      setShowLobby(true);
+      setGameState(GameState.START);
+    }
+  }, []);
+
+  const beginOnlineMatch = useCallback((link: NetLink, initialWorld: World) => {
+    tracker.current?.dispose();
+    tracker.current = createMatchTracker(initialWorld, 'versus');
+    stopBrains(brains.current);
+    brains.current = {};
+    setNetLink(link);
+    setMode('versus');
+    setInCampaign(false);
+    setOutcome(null);
+    store.replace(initialWorld);
+    setShowLobby(false);
+    setGameState(GameState.PLAYING);
+  }, [store]);
+
+  // Host only: everyone in the room gets a spinner on a ring around the centre.
+  const startOnline = useCallback(() => {
+    const client = netClient.current;
+    if (!client || !lobby || !isHost(lobby)) return;
+    const colors = [ROBOT_COLORS.PLAYER, ROBOT_COLORS.PLAYER_TWO, ...PLAYER_PAINT];
+    const roster = assignTeams(lobby.members.map((m, i) => {
+      const angle = Math.PI + (i / lobby.members.length) * Math.PI * 2;
+      return createRobot(robotIdFor(m.id), true, 'spinner', colors[i % colors.length], new Vector3(Math.cos(angle) * 6, 0, Math.sin(angle) * 6), -Math.PI / 2 - angle);
+    }), 'classic');
+    const initialWorld = createWorld(roster, Date.now(), getArena(arenaId), 'normal', resolveGameConfig(clockConfig));
+    client.send({ kind: 'start', arenaId, config: initialWorld.config, roster: roster.map(serializeRobot) });
+    recording.current = createReplay(initialWorld);
+    beginOnlineMatch(createNetLink(client, lobby), initialWorld);
+  }, [lobby, arenaId, clockConfig, beginOnlineMatch]);
+
+  // Payload handling needs the latest lobby and link, so it's re-pointed every render.
+  const onPayload = useRef<(from: string, payload: GamePayload) => void>(() => {});
+  onPayload.current = (from, payload) => {
+    const client = netClient.current;
+    if (!client || !lobby) return;
+    switch (payload.kind) {
+      case 'start': {
+        if (isHost(lobby) || from !== lobby.hostId) return;
+        let config;
+        try {
+          config = parseGameConfig(payload.config);
+        } catch {
+          leaveOnline('Host sent an invalid game config');
+          break;
+        }
+        recording.current = null;
+        beginOnlineMatch(createNetLink(client, lobby), createWorld(payload.roster.map(deserializeRobot), 0, getArena(payload.arenaId), 'normal', config));
+        break;
+      }
+      case 'snapshot':
+        if (netLink?.role === 'guest') pushSnapshot(netLink.buffer, payload.snapshot, performance.now() / 1000);
+        break;
+      case 'input':
+        // Peers are untrusted: only in-range axes and a real boolean reach the sim.
+        if (netLink?.role === 'host') netLink.remoteInputs[robotIdFor(from)] = sanitizeCommand(payload.input);
+        break;
+      case 'ping': {
+        if (!isHost(lobby)) break;
+        client.send({ kind: 'pong', sent: payload.sent }, from);
+        if (payload.latency === null) break;
+        const latencies = { ...lobby.latencies, [from]: payload.latency };
+        client.send({ kind: 'latency', latencies });
+        setLobby({ ...lobby, latencies });
+        break;
+      }
+      case 'pong':
+        lastLatency.current = Math.round(performance.now() - payload.sent);
+        setLobby({ ...lobby, latencies: { ...lobby.latencies, [lobby.clientId]: lastLatency.current } });
+        break;
+      case 'latency':
+        setLobby({ ...lobby, latencies: { ...payload.latencies, [lobby.clientId]: lastLatency.current ?? payload.latencies[lobby.clientId] } });
+        break;
+    }
+  };
+
+  const joinOnline = useCallback((url: string, room: string, name: string) => {
+    netClient.current?.close();
+    const client = createNetClient(url);
+    netClient.current = client;
+    setConnecting(true);
+    setNetError(null);
+    client.events.on('joined', ({ clientId, room: code }) => {
+      setConnecting(false);
+      setLobby({ clientId, room: code, hostId: clientId, members: [], latencies: {} });
+    });
+    client.events.on('lobby', ({ hostId, members }) => setLobby(l => l && { ...l, hostId, members }));
+    client.events.on('payload', ({ from, payload }) => onPayload.current(from, payload));
+    client.events.on('error', ({ message }) => { setConnecting(false); setNetError(message); });
+    client.events.on('closed', ({ reason }) => { if (netClient.current === client) leaveOnline(reason); });
+    client.join(room, name.trim() || 'PILOT');
+  }, [leaveOnline]);
+
+  // Guests measure their round trip to the host and report it on the next ping.
+  const guestClient = lobby && !isHost(lobby) ? netClient.current : null;
+  const hostId = lobby?.hostId;
+  useEffect(() => {
+    if (!guestClient) return;
+    const timer = setInterval(() => {
+      guestClient.send({ kind: 'ping', sent: performance.now(), latency: lastLatency.current }, hostId);
+    }, PING_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [guestClient, hostId]);
+
+  const watchReplay = useCallback((loaded: Replay) => {
+    setReplay(loaded);
+    setPlayback({ paused: false, speed: 1 });
+    store.replace(createReplayWorld(loaded));
+    setGameState(GameState.REPLAY);
+  }, [store]);
+
+  const saveReplay = useCallback(() => {
+    if (!recording.current) return;
+    const blob = new Blob([serializeReplay(recording.current)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `botbash-replay-${recording.current.recordedAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, []);
+
+  const loadReplay = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplayError(null);
+      watchReplay(parseReplay(await file.text()));
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : String(err));
+    }
+  }, [watchReplay]);
+
+  const pilotName = (robotId: string | null) => lobby?.members.find(m => robotIdFor(m.id) === robotId)?.name ?? 'NOBODY';
 
   return (
     <div className="relative w-full h-screen bg-slate-200 text-slate-900 overflow-hidden font-['VT323']">
@@ -324,29 +726,17 @@ const App: React.FC = () => {
         <div className="flex justify-between items-start">
           <div className="bg-white/80 backdrop-blur-md p-6 border-b-4 border-r-4 border-slate-900 shadow-xl">
             <h1 className="text-4xl font-bold tracking-tighter text-slate-800 uppercase">Arena Combat</h1>
-            <p className="text-sm text-slate-500 uppercase tracking-widest">LIVE_FEED // ACTIVE</p>
+            <p className="text-sm text-slate-500 uppercase tracking-widest">{gameState === GameState.REPLAY ? 'REPLAY_FEED // ARCHIVE' : inCampaign && campaign ? `ROUND ${campaign.round + 1} // ${currentRound(campaign).name}` : 'LIVE_FEED // ACTIVE'}</p>
+            {(gameState === GameState.PLAYING || gameState === GameState.REPLAY) && (
+              <p className="mt-1 flex items-center gap-2 text-sm text-slate-500 uppercase tracking-widest"><Video size={14} /> CAM: {settings.camera} [C]</p>
+            )}
           </div>
-          {gameState === GameState.PLAYING && (
-            <div className="bg-white/80 backdrop-blur-md p-6 border-b-4 border-l-4 border-red-600 shadow-xl">
-              <div className="text-sm text-slate-500 mb-1 uppercase text-right">Combatants</div>
-              <div className="text-5xl font-bold text-red-600 text-right">{robots.filter(r => !r.isPlayer && !r.isDead).length}</div>
-            </div>
-          )}
         </div>
-        {gameState === GameState.PLAYING && playerBot && (
-          <div className="absolute bottom-12 left-12 w-80 bg-white/80 backdrop-blur-md p-6 border-t-4 border-r-4 border-slate-900 shadow-xl">
-            <div className="flex justify-between items-end mb-3">
-              <span className="text-lg font-bold text-slate-800 uppercase">Hull Integrity</span>
-              <span className="text-3xl text-slate-900">{Math.ceil(playerBot.health)}%</span>
-            </div>
-            <div className="w-full h-6 bg-slate-200 border-2 border-slate-400 overflow-hidden p-1">
-              <div className={`h-full transition-all duration-300 ${playerBot.health > 30 ? 'bg-blue-600' : 'bg-red-600 animate-pulse'}`} style={{ width: `${playerBot.health}%` }} />
-            </div>
-            <div className="mt-4 grid grid-cols-2 gap-4 text-sm text-slate-500 uppercase">
-              <div className="flex items-center gap-2"><Cpu size={16}/> DRIVE: OK</div>
-              <div className="flex items-center gap-2"><Swords size={16}/> SPIN: {playerBot.weaponActive ? 'ON' : 'OFF'}</div>
-            </div>
-          </div>
+        {(gameState === GameState.PLAYING || gameState === GameState.PAUSED || gameState === GameState.REPLAY) && (
+          <MatchHud
+            store={store} mode={mode} localRobotId={netLink?.localRobotId ?? null}
+            brainStatus={brainStatus} showScriptErrors={gameState === GameState.PLAYING} lastDamaged={lastDamaged}
+          />
         )}
       </div>
 
@@ -354,29 +744,246 @@ const App: React.FC = () => {
         <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-slate-100/40 backdrop-blur-sm">
           <div className="text-center border-8 border-slate-900 p-16 bg-white shadow-2xl">
             <h2 className="text-8xl font-bold mb-8 tracking-tighter text-slate-900 uppercase italic">Robot Arena</h2>
+            <div className="flex justify-center gap-4 mb-8 text-2xl font-bold uppercase">
+              {(['solo', 'versus'] as MatchMode[]).map(m => (
+                <button key={m} onClick={() => setMode(m)} className={`px-6 py-2 border-4 border-slate-900 pointer-events-auto ${mode === m ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  {m === 'solo' ? '1 PLAYER' : '2 PLAYER VERSUS'}
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-center items-center gap-3 mb-4 text-xl font-bold uppercase">
+              <span className="text-slate-500">GAME:</span>
+              {GAME_TYPES.map(t => (
+                <button key={t} onClick={() => setGameType(t)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${gameType === t ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  {GAME_TYPE_LABELS[t]}
+                </button>
+              ))}
+              {isTeamGame(gameType) && (
+                <button onClick={() => setFriendlyFire(f => !f)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${friendlyFire ? 'bg-red-600 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  FRIENDLY FIRE: {friendlyFire ? 'ON' : 'OFF'}
+                </button>
+              )}
+            </div>
+            <div className="flex justify-center items-center gap-3 mb-4 text-xl font-bold uppercase">
+              <span className="text-slate-500">CLOCK:</span>
+              {MATCH_TIMES.map(t => (
+                <button key={t} onClick={() => setMatchTime(t)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${matchTime === t ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  {t === 0 ? 'NONE' : `${t / 60} MIN`}
+                </button>
+              ))}
+              {matchTime > 0 && (
+                <button onClick={() => setPitRelease(p => !p)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${pitRelease ? 'bg-red-600 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  PIT RELEASE: {pitRelease ? 'ON' : 'OFF'}
+                </button>
+              )}
+            </div>
+            <div className="flex justify-center items-center gap-3 mb-4 text-xl font-bold uppercase">
+              <span className="text-slate-500">ARENA:</span>
+              {ARENAS.map(a => (
+                <button key={a.id} onClick={() => setArenaId(a.id)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${arenaId === a.id ? 'bg-slate-900 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                  {a.name}
+                </button>
+              ))}
+            </div>
+            {(mode === 'solo' || gameType !== 'classic') && (
+              <div className="flex justify-center items-center gap-3 mb-8 text-xl font-bold uppercase">
+                <span className="text-slate-500">AI:</span>
+                {(['easy', 'normal', 'hard'] as Difficulty[]).map(d => (
+                  <button key={d} onClick={() => setDifficulty(d)} className={`px-4 py-1 border-2 border-slate-900 pointer-events-auto ${difficulty === d ? 'bg-red-600 text-white' : 'text-slate-700 hover:bg-slate-200'}`}>
+                    {d}
+                  </button>
+                ))}
+              </div>
+            )}
             <div className="space-y-6 mb-12 text-2xl text-slate-600 font-bold uppercase">
-                <p>DRIVE: [WASD / ARROWS]</p>
-                <p>WEAPON: [SPACE]</p>
-                <p className="text-red-600">OUTLAST THEM ALL</p>
+              {mode === 'solo' ? (
+                <>
+                  <p>DRIVE: [{describeDriveKeys(bindings.solo.keyboard)}]</p>
+                  <p>WEAPON: [{describeKeys(bindings.solo.keyboard.weapon)}]</p>
+                  <p className="text-red-600">{goalFor(mode, gameType)}</p>
+                </>
+              ) : (
+                <>
+                  {bindings.versus.map((b, i) => (
+                    <p key={i}>P{i + 1}: [{describeDriveKeys(b.keyboard)}] + [{describeKeys(b.keyboard.weapon)}]</p>
+                  ))}
+                  <p className="text-red-600">{goalFor(mode, gameType)}</p>
+                </>
+              )}
+            </div>
+            <button onClick={() => mode === 'solo' ? setGameState(GameState.GARAGE) : initGame()} className="px-16 py-6 bg-slate-900 text-white text-4xl font-bold hover:bg-blue-600 transition-all transform hover:scale-105 active:scale-95 pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase">ENGAGE</button>
+            <div className="mt-8 flex justify-center gap-8 text-2xl text-slate-600 font-bold uppercase">
+              <button onClick={newCampaign} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto"><Trophy size={20} /> NEW CAMPAIGN</button>
+              {campaign && (
+                <button onClick={() => { setMode('solo'); setInCampaign(true); setGameState(GameState.BRACKET); }} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                  <Trophy size={20} /> RESUME (ROUND {campaign.round + 1}/{CAMPAIGN_ROUNDS.length})
+                </button>
+              )}
             </div>
-            <button onClick={initGame} className="px-16 py-6 bg-slate-900 text-white text-4xl font-bold hover:bg-blue-600 transition-all transform hover:scale-105 active:scale-95 pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase">ENGAGE</button>
+            <div className="mt-4 flex justify-center gap-8 text-2xl text-slate-600 font-bold uppercase">
+              <button onClick={() => setShowBindings(true)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                <Gamepad2 size={20} /> CONTROLS
+              </button>
+              <button onClick={() => setShowHistory(true)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                <BarChart3 size={20} /> RECORDS
+              </button>
+              <button onClick={() => setShowLobby(true)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                <Globe size={20} /> ONLINE
+              </button>
+              <button onClick={() => setShowScripts(true)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                <FileCode size={20} /> SCRIPTS{scriptSlots(createRoster(mode, gameType, loadout)).some(slot => scripts[slot.robotId]) && ' *'}
+              </button>
+              <button onClick={() => setShowSettings(true)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto">
+                <SettingsIcon size={20} /> SETTINGS
+              </button>
+            </div>
+            <label className="mt-4 flex items-center justify-center gap-2 text-2xl text-slate-600 font-bold uppercase cursor-pointer hover:text-blue-600 pointer-events-auto">
+              <Upload size={20} /> LOAD REPLAY
+              <input type="file" accept="application/json,.json" onChange={loadReplay} className="hidden" />
+            </label>
+            {replayError && <p className="mt-2 text-xl text-red-600 uppercase">{replayError}</p>}
           </div>
         </div>
       )}
 
       {(gameState === GameState.GAME_OVER || gameState === GameState.VICTORY) && (
         <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-slate-100/90 backdrop-blur-md">
-          <div className="text-center p-20 border-8 border-slate-900 bg-white shadow-2xl">
-            <h2 className={`text-9xl font-bold mb-6 ${gameState === GameState.VICTORY ? 'text-blue-600' : 'text-red-600'}`}>{gameState === GameState.VICTORY ? 'VICTORY' : 'SCRAPPED'}</h2>
-            <p className="text-3xl text-slate-500 mb-12 uppercase tracking-[1em]">{gameState === GameState.VICTORY ? 'Champion Data Stored' : 'Hardware Failure'}</p>
-            <button onClick={initGame} className="px-16 py-6 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 transition-all pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase">RE-INITIALIZE</button>
+          <div className="min-w-[48rem] max-h-[95vh] overflow-y-auto text-center p-12 border-8 border-slate-900 bg-white shadow-2xl">
+            <h2 className={`text-9xl font-bold mb-6 ${gameState === GameState.VICTORY ? 'text-blue-600' : 'text-red-600'}`}>
+              {isTeamGame(store.get().rules.type) && outcome?.winningTeam != null ? `TEAM ${TEAM_NAMES[outcome.winningTeam]} WINS`
+                : mode === 'versus' ? (outcome?.winnerId ? `${netLink ? pilotName(outcome.winnerId) : playerLabel(store.get().robots, outcome.winnerId)} WINS` : outcome?.decision ? 'DRAW' : 'DOUBLE KO') : gameState === GameState.VICTORY ? (inCampaign ? 'CHAMPION' : 'VICTORY') : 'SCRAPPED'}
+            </h2>
+            <p className="text-3xl text-slate-500 mb-8 uppercase tracking-[1em]">{gameState === GameState.VICTORY ? 'Champion Data Stored' : 'Hardware Failure'}</p>
+            {report && <div className="mb-8"><MatchReportPanel report={report} /></div>}
+            {netLink ? (
+              <div className="flex justify-center gap-6">
+                {lobby && isHost(lobby) ? (
+                  <button disabled={lobby.members.length < 2} onClick={startOnline} className="px-12 py-6 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 transition-all pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase disabled:opacity-30">REMATCH</button>
+                ) : (
+                  <span className="px-6 py-6 text-3xl text-slate-500 uppercase">WAITING FOR HOST</span>
+                )}
+                <button onClick={() => { leaveOnline(); toMenu(); }} className="px-12 py-6 border-4 border-slate-900 text-slate-700 text-3xl font-bold hover:bg-slate-200 pointer-events-auto uppercase">LEAVE</button>
+              </div>
+            ) : inCampaign ? (
+              <button onClick={toMenu} className="px-16 py-6 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 transition-all pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase">{gameState === GameState.VICTORY ? 'CAMPAIGN COMPLETE' : 'RUN OVER'}</button>
+            ) : (
+              <button onClick={() => initGame()} className="px-16 py-6 bg-slate-900 text-white text-3xl font-bold hover:bg-blue-600 transition-all pointer-events-auto shadow-[8px_8px_0px_#94a3b8] uppercase">RE-INITIALIZE</button>
+            )}
+            {recording.current && (
+              <div className="mt-8 flex justify-center gap-8 text-2xl text-slate-600 font-bold uppercase">
+                <button onClick={() => recording.current && watchReplay(recording.current)} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto"><Film size={20} /> WATCH REPLAY</button>
+                <button onClick={saveReplay} className="flex items-center gap-2 hover:text-blue-600 pointer-events-auto"><Download size={20} /> SAVE REPLAY</button>
+              </div>
+            )}
           </div>
         </div>
       )}
 
-      <Canvas shadows gl={{ antialias: true }}>
+      {gameState === GameState.GARAGE && (
+        <GarageScreen loadout={loadout} onDeploy={deploy} onBack={toMenu} />
+      )}
+
+      {gameState === GameState.BRACKET && campaign && (
+        <BracketScreen
+          run={campaign}
+          onFight={() => fightRound(campaign)}
+          onAbandon={() => { updateCampaign(null); toMenu(); }}
+          onBack={toMenu}
+        />
+      )}
+
+      {gameState === GameState.INTERMISSION && campaign && (
+        <IntermissionScreen
+          run={campaign}
+          onRepair={(amount) => updateCampaign(repairHull(campaign, amount))}
+          onContinue={() => setGameState(GameState.BRACKET)}
+        />
+      )}
+
+      {gameState === GameState.DECISION && outcome?.decision && (
+        <DecisionScreen
+          scores={outcome.decision}
+          robots={store.get().robots}
+          maxPoints={store.get().config.judgePoints}
+          winnerId={outcome.winnerId}
+          labelFor={(id) => netLink ? pilotName(id) : playerLabel(store.get().robots, id)}
+          onContinue={() => setGameState(afterDecision ?? GameState.GAME_OVER)}
+        />
+      )}
+
+      {gameState === GameState.FINALE && (
+        <div className="absolute top-8 left-1/2 -translate-x-1/2 z-20 flex items-center gap-6 bg-white/80 backdrop-blur-md px-8 py-4 border-b-4 border-red-600 shadow-xl pointer-events-auto uppercase">
+          <span className="text-4xl font-bold text-red-600 tracking-tighter animate-pulse">FINAL BLOW</span>
+          <span className="text-xl text-slate-500 tracking-widest">SLOW-MO // {FINALE_SPEED}X</span>
+          <button onClick={endFinale} className="flex items-center gap-2 px-4 py-1 border-2 border-slate-900 text-2xl font-bold text-slate-700 hover:bg-slate-200"><FastForward size={18} /> SKIP</button>
+        </div>
+      )}
+
+      {gameState === GameState.PAUSED && (
+        <PauseMenu
+          onResume={() => setGameState(GameState.PLAYING)}
+          onRestart={restart}
+          onSettings={() => setShowSettings(true)}
+          onQuit={toMenu}
+        />
+      )}
+
+      <MixerPanel mixer={mixer} onChange={changeMixer} />
+
+      {lobby && netLink && gameState === GameState.PLAYING && <NetStatus lobby={lobby} />}
+
+      {showLobby && (
+        <OnlineLobby
+          lobby={lobby}
+          connecting={connecting}
+          error={netError}
+          onJoin={joinOnline}
+          onStart={startOnline}
+          onLeave={() => leaveOnline()}
+          onClose={() => setShowLobby(false)}
+        />
+      )}
+
+      {showScripts && (
+        <BotScriptsScreen slots={scriptSlots(createRoster(mode, gameType, loadout))} scripts={scripts} onChange={changeScript} onClose={() => setShowScripts(false)} />
+      )}
+
+      {showSettings && (
+        <SettingsScreen settings={settings} mixer={mixer} onChange={changeSettings} onMixerChange={changeMixer} onClose={() => setShowSettings(false)} />
+      )}
+
+      {showHistory && <HistoryScreen history={history} onClose={() => setShowHistory(false)} />}
+
+      {showBindings && (
+        <BindingsScreen
+          bindings={bindings}
+          onSave={(next) => { saveBindings(next); setBindings(next); setShowBindings(false); }}
+          onClose={() => setShowBindings(false)}
+        />
+      )}
+
+      {mode === 'versus' && (gameState === GameState.PLAYING || gameState === GameState.PAUSED) && !netLink && (
+        <div className="absolute inset-y-0 left-1/2 w-1 -translate-x-1/2 bg-slate-900 z-10 pointer-events-none" />
+      )}
+
+      {gameState === GameState.REPLAY && replay && (
+        <ReplayControls
+          replay={replay}
+          store={store}
+          playback={playback}
+          onPlaybackChange={setPlayback}
+          onSeek={(tick) => store.replace(seekReplay(replay, tick))}
+          onExit={toMenu}
+        />
+      )}
+
+      <Canvas shadows={settings.graphics.shadows} gl={{ antialias: true }}>
         <PerspectiveCamera makeDefault position={[0, 12, 14]} fov={40} />
-        <GameLoop robots={robots} setRobots={setRobots} gameState={gameState} setGameState={setGameState} />
+        <GameLoop
+          store={store} gameState={gameState}
+          mode={mode} bindings={bindings} onMatchEnd={endMatch} recording={recording} tracker={tracker} replay={replay} playback={playback} net={netLink} brains={brains} settings={settings}
+          finale={finale} onFinaleEnd={endFinale}
+        />
       </Canvas>
     </div>
   );
@@ -0,0 +1,64 @@
+import { BindingProfiles, PlayerBinding, KeyBinding, ControlAction } from '../types';
+import { DEFAULT_BINDINGS, BINDINGS_STORAGE_KEY } from '../constants';
+import { loadJson, saveJson } from '../settings/storage';
+
+export const CONTROL_ACTIONS: ControlAction[] = ['forward', 'reverse', 'left', 'right', 'weapon'];
+
+const isKeyBinding = (value: unknown): value is KeyBinding =>
+  !!value && typeof value === 'object' &&
+  CONTROL_ACTIONS.every(action => {
+    const codes = (value as Record<string, unknown>)[action];
+    return Array.isArray(codes) && codes.every(code => typeof code === 'string');
+  });
+
+const isPlayerBinding = (value: unknown): value is PlayerBinding => {
+  if (!value || typeof value !== 'object') return false;
+  const { keyboard, gamepad } = value as Partial<PlayerBinding>;
+  return isKeyBinding(keyboard) && !!gamepad &&
+    (gamepad.index === null || Number.isInteger(gamepad.index)) &&
+    Number.isInteger(gamepad.weaponButton);
+};
+
+const cloneBindings = (bindings: BindingProfiles): BindingProfiles => JSON.parse(JSON.stringify(bindings));
+
+export const getDefaultBindings = () => cloneBindings(DEFAULT_BINDINGS);
+
+const isBindingProfiles = (value: unknown): value is BindingProfiles => {
+  if (!value || typeof value !== 'object') return false;
+  const { solo, versus } = value as Partial<BindingProfiles>;
+  return isPlayerBinding(solo) && Array.isArray(versus) && versus.length === 2 && versus.every(isPlayerBinding);
+};
+
+// Anything unreadable or from an older shape falls back to the defaults rather
+// than leaving a player without controls.
+export const loadBindings = (): BindingProfiles => loadJson(BINDINGS_STORAGE_KEY, isBindingProfiles) ?? getDefaultBindings();
+
+export const saveBindings = (bindings: BindingProfiles) => saveJson(BINDINGS_STORAGE_KEY, bindings);
+
+export const formatKeyCode = (code: string) =>
+  code
+    .replace(/^Key/, '')
+    .replace(/^Digit/, '')
+    .replace(/^Arrow(.*)$/, 'ARROW $1')
+    .replace(/([a-z])(Left|Right)$/, '$1 $2')
+    .toUpperCase();
+
+export const describeKeys = (codes: string[]) => codes.map(formatKeyCode).join(' / ') || 'UNBOUND';
+
+// Summarises the drive cluster per slot, e.g. "WASD / ARROWS" for the solo defaults.
+export const describeDriveKeys = (keyboard: KeyBinding) =>
+  [0, 1]
+    .map(slot => {
+      const codes = [keyboard.forward[slot], keyboard.left[slot], keyboard.reverse[slot], keyboard.right[slot]].filter(Boolean);
+      if (codes.length === 0) return '';
+      if (codes.length === 4 && codes.every(code => code.startsWith('Arrow'))) return 'ARROWS';
+      const labels = codes.map(formatKeyCode);
+      return labels.every(label => label.length === 1) ? labels.join('') : labels.join(' ');
+    })
+    .filter(Boolean)
+    .join(' / ') || 'UNBOUND';
+
+/** Every key code bound in either profile, so the browser's default for it can be suppressed. */
+export const boundKeys = (bindings: BindingProfiles): string[] => [
+  ...new Set([bindings.solo, ...bindings.versus].flatMap(binding => CONTROL_ACTIONS.flatMap(action => binding.keyboard[action])))
+];
@@ -0,0 +1,51 @@
+import { ControlInput, KeyBinding, GamepadBinding, PlayerBinding } from '../types';
+import { GAMEPAD_DEADZONE } from '../constants';
+
+export type KeyMap = { [code: string]: boolean };
+
+const isHeld = (keys: KeyMap, codes: string[]) => codes.some(code => keys[code]);
+
+const clampUnit = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Rescales past the deadzone so the stick still reaches full deflection, and
+// rounds to keep replays compact and stable.
+const applyDeadzone = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude < GAMEPAD_DEADZONE) return 0;
+  const scaled = (magnitude - GAMEPAD_DEADZONE) / (1 - GAMEPAD_DEADZONE);
+  return Math.sign(value) * Math.round(Math.min(1, scaled) * 100) / 100;
+};
+
+export const readKeyboard = (keys: KeyMap, binding: KeyBinding): ControlInput => ({
+  throttle: (isHeld(keys, binding.forward) ? 1 : 0) - (isHeld(keys, binding.reverse) ? 1 : 0),
+  turn: (isHeld(keys, binding.left) ? 1 : 0) - (isHeld(keys, binding.right) ? 1 : 0),
+  weapon: isHeld(keys, binding.weapon)
+});
+
+export const getGamepads = (): (Gamepad | null)[] =>
+  typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+
+export const readGamepad = (pad: Gamepad | null | undefined, binding: GamepadBinding): ControlInput | null => {
+  if (!pad || !pad.connected) return null;
+  const pressed = (i: number) => !!pad.buttons[i]?.pressed;
+  // Standard mapping: axes 0/1 are the left stick, buttons 12-15 the d-pad.
+  const dpadThrottle = (pressed(12) ? 1 : 0) - (pressed(13) ? 1 : 0);
+  const dpadTurn = (pressed(14) ? 1 : 0) - (pressed(15) ? 1 : 0);
+  return {
+    throttle: clampUnit(-applyDeadzone(pad.axes[1] ?? 0) + dpadThrottle),
+    turn: clampUnit(-applyDeadzone(pad.axes[0] ?? 0) + dpadTurn),
+    weapon: pressed(binding.weaponButton)
+  };
+};
+
+/** Merges keyboard and gamepad into one action state for a player. */
+export const readControls = (keys: KeyMap, binding: PlayerBinding, pads: (Gamepad | null)[]): ControlInput => {
+  const keyboard = readKeyboard(keys, binding.keyboard);
+  const gamepad = binding.gamepad.index === null ? null : readGamepad(pads[binding.gamepad.index], binding.gamepad);
+  if (!gamepad) return keyboard;
+  return {
+    throttle: clampUnit(keyboard.throttle + gamepad.throttle),
+    turn: clampUnit(keyboard.turn + gamepad.turn),
+    weapon: keyboard.weapon || gamepad.weapon
+  };
+};
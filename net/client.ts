@@ -0,0 +1,58 @@
+import { ClientMessage, ServerMessage, GamePayload, LobbyMember, parseMessage } from './protocol';
+import { createEventBus, EventBus } from '../events/bus';
+
+export type NetEvents = {
+  joined: { clientId: string; room: string };
+  lobby: { hostId: string; members: LobbyMember[] };
+  payload: { from: string; payload: GamePayload };
+  error: { message: string };
+  closed: { reason: string };
+};
+
+export interface NetClient {
+  events: EventBus<NetEvents>;
+  join: (room: string, name: string) => void;
+  send: (payload: GamePayload, to?: string) => void;
+  close: () => void;
+}
+
+/** Opens a socket to the relay. Messages sent before it connects are queued. */
+export const createNetClient = (url: string): NetClient => {
+  const events = createEventBus<NetEvents>();
+  const socket = new WebSocket(url);
+  const queue: ClientMessage[] = [];
+  let closedByUs = false, opened = false;
+
+  const write = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    else if (socket.readyState === WebSocket.CONNECTING) queue.push(message);
+  };
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    queue.splice(0).forEach(message => socket.send(JSON.stringify(message)));
+  });
+  socket.addEventListener('message', (e) => {
+    const message = parseMessage<ServerMessage>(String(e.data));
+    if (!message) return;
+    switch (message.type) {
+      case 'joined': events.emit('joined', { clientId: message.clientId, room: message.room }); break;
+      case 'lobby': events.emit('lobby', { hostId: message.hostId, members: message.members }); break;
+      case 'relay': events.emit('payload', { from: message.from, payload: message.payload }); break;
+      case 'error': events.emit('error', { message: message.message }); break;
+      case 'closed': events.emit('closed', { reason: message.reason }); break;
+    }
+  });
+  socket.addEventListener('error', () => events.emit('error', { message: `Could not reach relay at ${url}` }));
+  socket.addEventListener('close', () => {
+    // A socket that never opened has already reported an error.
+    if (opened && !closedByUs) events.emit('closed', { reason: 'Disconnected from relay' });
+  });
+
+  return {
+    events,
+    join: (room, name) => write({ type: 'join', room, name }),
+    send: (payload, to) => write({ type: 'relay', payload, to }),
+    close: () => { closedByUs = true; socket.close(); }
+  };
+};
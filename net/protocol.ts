@@ -0,0 +1,55 @@
+import { ControlInput, GameConfig, Pickup } from '../types';
+import { ReplayRobot } from '../sim/replay';
+import { SimEvent } from '../sim/events';
+import { MatchOutcome } from '../sim/world';
+
+// Wire format between browsers and server/relay.ts. The relay only understands
+// the envelope; `GamePayload`s pass through it untouched between host and guests.
+
+export interface LobbyMember {
+  id: string;
+  name: string;
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; name: string }
+  // Broadcast to everyone else in the room, or only to `to`.
+  | { type: 'relay'; payload: GamePayload; to?: string };
+
+export type ServerMessage =
+  | { type: 'joined'; clientId: string; room: string }
+  // The first client to join a room hosts it.
+  | { type: 'lobby'; hostId: string; members: LobbyMember[] }
+  | { type: 'relay'; from: string; payload: GamePayload }
+  | { type: 'error'; message: string }
+  | { type: 'closed'; reason: string };
+
+export interface Snapshot {
+  tick: number;
+  time: number;
+  robots: ReplayRobot[];
+  pickups: Pickup[];
+  // Sim events since the previous snapshot, so guests get sparks and sounds.
+  events: SimEvent[];
+  // Set on the last snapshot of a match.
+  outcome?: MatchOutcome;
+}
+
+export type GamePayload =
+  // Robot ids are robotIdFor(clientId), so guests can find their own robot.
+  | { kind: 'start'; arenaId: string; config: GameConfig; roster: ReplayRobot[] }
+  | { kind: 'snapshot'; snapshot: Snapshot }
+  | { kind: 'input'; input: ControlInput }
+  // Guests ping the host; `latency` is the guest's last measured round trip.
+  | { kind: 'ping'; sent: number; latency: number | null }
+  | { kind: 'pong'; sent: number }
+  | { kind: 'latency'; latencies: Record<string, number> };
+
+export const parseMessage = <T>(raw: string): T | null => {
+  try {
+    const data = JSON.parse(raw);
+    return data && typeof data === 'object' && typeof data.type === 'string' ? data as T : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,77 @@
+import { ControlInput } from '../types';
+import { SNAPSHOT_INTERVAL_TICKS } from '../constants';
+import { World, WorldInputs, MatchOutcome } from '../sim/world';
+import { SimEvent } from '../sim/events';
+import { serializeRobot } from '../sim/replay';
+import { NetClient } from './client';
+import { LobbyMember } from './protocol';
+import { SnapshotBuffer, createSnapshotBuffer } from './snapshots';
+
+// Lobby state shown in the UI while connected to a room.
+export interface OnlineLobby {
+  clientId: string;
+  room: string;
+  hostId: string;
+  members: LobbyMember[];
+  // Round trip to the host in ms, per client id. The host itself is 0.
+  latencies: Record<string, number>;
+}
+
+// Per-match network state handed to GameLoop. The host simulates and streams
+// snapshots; guests only send inputs and render what arrives.
+export interface NetLink {
+  client: NetClient;
+  role: 'host' | 'guest';
+  localRobotId: string;
+  remoteInputs: WorldInputs;
+  pendingEvents: SimEvent[];
+  buffer: SnapshotBuffer;
+  lastInput: ControlInput | null;
+  lastInputSentAt: number;
+}
+
+export const isHost = (lobby: OnlineLobby) => lobby.clientId === lobby.hostId;
+
+export const robotIdFor = (clientId: string) => `net-${clientId}`;
+
+export const createNetLink = (client: NetClient, lobby: OnlineLobby): NetLink => ({
+  client,
+  role: isHost(lobby) ? 'host' : 'guest',
+  localRobotId: robotIdFor(lobby.clientId),
+  remoteInputs: {},
+  pendingEvents: [],
+  buffer: createSnapshotBuffer(),
+  lastInput: null,
+  lastInputSentAt: 0
+});
+
+/**
+ * Host: queues a stepped world's events and broadcasts every SNAPSHOT_INTERVAL_TICKS.
+ * With an outcome it flushes at once instead; that world's events were already
+ * queued when it was stepped, so they aren't queued again.
+ */
+export const hostStep = (link: NetLink, world: World, outcome: MatchOutcome | null = null) => {
+  if (!outcome) link.pendingEvents.push(...world.events);
+  if (!outcome && world.tick % SNAPSHOT_INTERVAL_TICKS !== 0) return;
+  link.client.send({
+    kind: 'snapshot',
+    snapshot: {
+      tick: world.tick,
+      time: world.time,
+      robots: world.robots.map(serializeRobot),
+      pickups: world.pickups,
+      events: link.pendingEvents.splice(0),
+      ...(outcome ? { outcome } : {})
+    }
+  });
+};
+
+const sameInput = (a: ControlInput, b: ControlInput) => a.throttle === b.throttle && a.turn === b.turn && a.weapon === b.weapon;
+
+/** Guest: sends the local input when it changes, and at least every 250ms in case a packet was lost. */
+export const sendGuestInput = (link: NetLink, input: ControlInput, now: number) => {
+  if (link.lastInput && sameInput(link.lastInput, input) && now - link.lastInputSentAt < 250) return;
+  link.lastInput = input;
+  link.lastInputSentAt = now;
+  link.client.send({ kind: 'input', input });
+};
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { INTERPOLATION_DELAY } from '../constants';
+import { createRobot } from '../sim/roster';
+import { serializeRobot } from '../sim/replay';
+import { SimEvent } from '../sim/events';
+import { Snapshot } from './protocol';
+import { createSnapshotBuffer, pushSnapshot, sampleSnapshots } from './snapshots';
+
+const snapshotAt = (tick: number, time: number, x: number, events: SimEvent[] = []): Snapshot => ({
+  tick,
+  time,
+  robots: [serializeRobot(createRobot('p', true, 'tank', '#fff', new Vector3(x, 0, 0), 0))],
+  pickups: [],
+  events
+});
+
+describe('snapshot buffer', () => {
+  it('blends between the snapshots either side of the render time', () => {
+    const buffer = createSnapshotBuffer();
+    pushSnapshot(buffer, snapshotAt(0, 0, 0), 0);
+    pushSnapshot(buffer, snapshotAt(6, 0.1, 2), 0.1);
+    const sample = sampleSnapshots(buffer, 0.05 + INTERPOLATION_DELAY)!;
+    expect(sample.tick).toBe(6);
+    expect(sample.robots[0].prevPosition.x).toBe(0);
+    expect(sample.robots[0].position.x).toBe(2);
+    expect(sample.alpha).toBeCloseTo(0.5);
+  });
+
+  it('drops snapshots that arrive out of order', () => {
+    const buffer = createSnapshotBuffer();
+    pushSnapshot(buffer, snapshotAt(6, 0.1, 2), 0);
+    pushSnapshot(buffer, snapshotAt(0, 0, 0), 0);
+    expect(buffer.snapshots.map(s => s.tick)).toEqual([6]);
+  });
+
+  it('hands out each snapshot event once', () => {
+    const buffer = createSnapshotBuffer();
+    const ringOut: SimEvent = { type: 'ringOut', time: 0.05, robotId: 'p' };
+    pushSnapshot(buffer, snapshotAt(0, 0, 0), 0);
+    pushSnapshot(buffer, snapshotAt(6, 0.1, 2, [ringOut]), 0.1);
+    expect(sampleSnapshots(buffer, 0.05 + INTERPOLATION_DELAY)!.events).toEqual([]);
+    expect(sampleSnapshots(buffer, 0.1 + INTERPOLATION_DELAY)!.events).toEqual([ringOut]);
+    expect(sampleSnapshots(buffer, 0.12 + INTERPOLATION_DELAY)!.events).toEqual([]);
+  });
+});
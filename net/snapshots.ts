@@ -0,0 +1,74 @@
+import { RobotData, Pickup } from '../types';
+import { INTERPOLATION_DELAY } from '../constants';
+import { deserializeRobot } from '../sim/replay';
+import { SimEvent } from '../sim/events';
+import { Snapshot } from './protocol';
+
+// Guest-side snapshot history. Guests render INTERPOLATION_DELAY behind the
+// host's clock so there's usually a snapshot on either side to blend between.
+export interface SnapshotBuffer {
+  snapshots: Snapshot[];
+  // Host sim time minus local seconds, from the newest snapshot.
+  clockOffset: number | null;
+  // Sim time up to which snapshot events have been handed out.
+  consumedTime: number;
+}
+
+export interface SnapshotSample {
+  robots: RobotData[];
+  pickups: Pickup[];
+  alpha: number;
+  // Host sim time being shown, for clock-driven visuals.
+  renderTime: number;
+  time: number;
+  tick: number;
+  events: SimEvent[];
+  outcome?: Snapshot['outcome'];
+}
+
+export const createSnapshotBuffer = (): SnapshotBuffer => ({ snapshots: [], clockOffset: null, consumedTime: -Infinity });
+
+export const pushSnapshot = (buffer: SnapshotBuffer, snapshot: Snapshot, localTime: number) => {
+  const last = buffer.snapshots[buffer.snapshots.length - 1];
+  if (last && snapshot.tick <= last.tick) return; // Out of order
+  buffer.snapshots.push(snapshot);
+  const offset = snapshot.time - localTime;
+  // Track the fastest delivery; slow packets shouldn't drag the render clock back.
+  buffer.clockOffset = buffer.clockOffset === null ? offset : Math.max(offset, buffer.clockOffset - 0.001);
+  if (buffer.snapshots.length > 60) buffer.snapshots.shift();
+};
+
+/**
+ * Robots at the render time, shaped like a sim step: `prevPosition` is the
+ * earlier snapshot and `position` the later one, blended by `alpha` exactly as
+ * the local fixed-step loop does.
+ */
+export const sampleSnapshots = (buffer: SnapshotBuffer, localTime: number): SnapshotSample | null => {
+  const { snapshots } = buffer;
+  if (snapshots.length === 0 || buffer.clockOffset === null) return null;
+  const renderTime = localTime + buffer.clockOffset - INTERPOLATION_DELAY;
+
+  let i = snapshots.length - 1;
+  while (i > 0 && snapshots[i - 1].time > renderTime) i--;
+  const to = snapshots[i], from = snapshots[Math.max(0, i - 1)];
+  const span = to.time - from.time;
+  const alpha = span > 0 ? Math.max(0, Math.min(1, (renderTime - from.time) / span)) : 1;
+
+  const events: SimEvent[] = [];
+  let outcome: Snapshot['outcome'];
+  snapshots.forEach(s => {
+    if (s.time <= buffer.consumedTime || s.time > renderTime) return;
+    events.push(...s.events);
+    if (s.outcome) outcome = s.outcome;
+  });
+  buffer.consumedTime = Math.max(buffer.consumedTime, Math.min(renderTime, to.time));
+
+  const robots = to.robots.map(r => {
+    const robot = deserializeRobot(r);
+    const prev = from.robots.find(p => p.id === r.id) ?? r;
+    robot.prevPosition.set(prev.position[0], prev.position[1], prev.position[2]);
+    robot.prevRotation = prev.rotation;
+    return robot;
+  });
+  return { robots, pickups: to.pickups, alpha, renderTime: Math.min(renderTime, to.time), time: to.time, tick: to.tick, events, outcome };
+};
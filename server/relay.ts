@@ -0,0 +1,95 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { ClientMessage, ServerMessage, LobbyMember, parseMessage } from '../net/protocol';
+import { MAX_ROOM_PLAYERS, RELAY_PORT } from '../constants';
+
+// Minimal room relay for online matches: it assigns ids, tracks who hosts each
+// room and forwards game payloads. All simulation happens on the host client.
+//
+//   npm run relay            # listens on ws://localhost:8787
+//   PORT=9000 npm run relay
+//   HOST=0.0.0.0 npm run relay   # accept connections from other machines
+
+interface Client {
+  id: string;
+  name: string;
+  socket: WebSocket;
+  room: string | null;
+}
+
+interface Room {
+  hostId: string;
+  clients: Client[];
+}
+
+const port = Number(process.env.PORT) || RELAY_PORT;
+const host = process.env.HOST || 'localhost';
+const rooms = new Map<string, Room>();
+let nextId = 1;
+
+const send = (client: Client, message: ServerMessage) => {
+  if (client.socket.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(message));
+};
+
+const broadcastLobby = (room: Room) => {
+  const members: LobbyMember[] = room.clients.map(c => ({ id: c.id, name: c.name }));
+  room.clients.forEach(c => send(c, { type: 'lobby', hostId: room.hostId, members }));
+};
+
+const leave = (client: Client) => {
+  const code = client.room;
+  const room = code ? rooms.get(code) : undefined;
+  client.room = null;
+  if (!code || !room) return;
+  room.clients = room.clients.filter(c => c !== client);
+  // The host owns the simulation, so the room can't outlive it.
+  if (client.id === room.hostId || room.clients.length === 0) {
+    room.clients.forEach(c => { c.room = null; send(c, { type: 'closed', reason: 'Host left the room' }); });
+    rooms.delete(code);
+    console.log(`room ${code} closed`);
+    return;
+  }
+  broadcastLobby(room);
+};
+
+const handle = (client: Client, message: ClientMessage) => {
+  if (message.type === 'join') {
+    const code = String(message.room).trim().toUpperCase();
+    if (!code) return send(client, { type: 'error', message: 'Room code is required' });
+    // Checked before leaving, so a rejected join keeps the client where it was.
+    const existing = rooms.get(code);
+    if (existing && existing.clients.filter(c => c !== client).length >= MAX_ROOM_PLAYERS) {
+      return send(client, { type: 'error', message: `Room ${code} is full` });
+    }
+    leave(client);
+    const room = rooms.get(code) ?? { hostId: client.id, clients: [] };
+    client.name = String(message.name || `Pilot ${client.id}`).slice(0, 16);
+    client.room = code;
+    room.clients.push(client);
+    rooms.set(code, room);
+    send(client, { type: 'joined', clientId: client.id, room: code });
+    broadcastLobby(room);
+    console.log(`${client.name} (${client.id}) joined ${code}`);
+    return;
+  }
+  if (message.type === 'relay') {
+    const room = client.room ? rooms.get(client.room) : undefined;
+    if (!room) return send(client, { type: 'error', message: 'Not in a room' });
+    room.clients.forEach(c => {
+      if (c !== client && (!message.to || message.to === c.id)) send(c, { type: 'relay', from: client.id, payload: message.payload });
+    });
+  }
+};
+
+const server = new WebSocketServer({ host, port });
+
+server.on('connection', socket => {
+  const client: Client = { id: `c${nextId++}`, name: '', socket, room: null };
+  socket.on('message', data => {
+    const message = parseMessage<ClientMessage>(data.toString());
+    if (message) handle(client, message);
+    else send(client, { type: 'error', message: 'Malformed message' });
+  });
+  socket.on('close', () => leave(client));
+});
+
+server.on('listening', () => console.log(`BotBash relay listening on ws://${host}:${port}`));
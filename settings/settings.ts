@@ -0,0 +1,22 @@
+import { CameraMode, GraphicsSettings, Settings } from '../types';
+import { CAMERA_MODES, CONTACT_SHADOW_RESOLUTIONS, DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY } from '../constants';
+import { loadJson, saveJson } from './storage';
+
+const isGraphics = (value: unknown): value is GraphicsSettings => {
+  if (!value || typeof value !== 'object') return false;
+  const { shadows, contactShadowResolution, environment } = value as Partial<GraphicsSettings>;
+  return typeof shadows === 'boolean'
+    && typeof environment === 'boolean'
+    && CONTACT_SHADOW_RESOLUTIONS.includes(contactShadowResolution as number);
+};
+
+const isSettings = (value: unknown): value is Settings => {
+  if (!value || typeof value !== 'object') return false;
+  const { graphics, camera } = value as Partial<Settings>;
+  return isGraphics(graphics) && CAMERA_MODES.includes(camera as CameraMode);
+};
+
+export const loadSettings = (): Settings =>
+  loadJson(SETTINGS_STORAGE_KEY, isSettings) ?? { ...DEFAULT_SETTINGS, graphics: { ...DEFAULT_SETTINGS.graphics } };
+
+export const saveSettings = (settings: Settings) => saveJson(SETTINGS_STORAGE_KEY, settings);
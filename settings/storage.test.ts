@@ -0,0 +1,45 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { loadJson, saveJson, removeJson } from './storage';
+
+const isCount = (value: unknown): value is { count: number } =>
+  !!value && typeof value === 'object' && typeof (value as { count?: unknown }).count === 'number';
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key)
+  };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('storage', () => {
+  it('reads back what was saved', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    saveJson('k', { count: 3 });
+    expect(loadJson('k', isCount)).toEqual({ count: 3 });
+    removeJson('k');
+    expect(loadJson('k', isCount)).toBeNull();
+  });
+
+  it('ignores corrupt JSON and values that fail the guard', () => {
+    const storage = memoryStorage();
+    vi.stubGlobal('localStorage', storage);
+    storage.setItem('k', '{count');
+    expect(loadJson('k', isCount)).toBeNull();
+    storage.setItem('k', '{"count":"3"}');
+    expect(loadJson('k', isCount)).toBeNull();
+  });
+
+  it('never throws when storage is disabled', () => {
+    const blocked = () => { throw new DOMException('Blocked', 'SecurityError'); };
+    vi.stubGlobal('localStorage', { getItem: blocked, setItem: blocked, removeItem: blocked });
+    expect(loadJson('k', isCount)).toBeNull();
+    expect(() => saveJson('k', { count: 1 })).not.toThrow();
+    expect(() => removeJson('k')).not.toThrow();
+  });
+});
@@ -0,0 +1,31 @@
+// Everything the game remembers between visits goes through here. Storage can
+// be disabled (private browsing, blocked cookies) or hold anything, so reads
+// only return values that pass their guard and writes never throw: whatever
+// was being saved still applies for this session.
+
+/** The value saved under `key`, or null if there isn't a valid one. */
+export const loadJson = <T>(key: string, guard: (value: unknown) => value is T): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    const data: unknown = raw ? JSON.parse(raw) : null;
+    return guard(data) ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Kept in memory only
+  }
+};
+
+export const removeJson = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch {
+    // Nothing was saved
+  }
+};
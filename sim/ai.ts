@@ -0,0 +1,230 @@
+import { RobotData, RobotType, ControlInput, Difficulty, ArenaDefinition, PitZone, GameConfig, Pickup, PickupKind, MatchRules } from '../types';
+import { ROBOT_RADIUS, AI_DIFFICULTY } from '../constants';
+import { polygonCentroid, openPits, isOpenFloor, knockEndsInRingOut } from './arena';
+import { pitsReleased } from './clock';
+import { hasEffect } from './pickups';
+import { isOnHill } from './rules';
+
+/**
+ * Read-only view of the world handed to an AI controller at the start of a
+ * tick. Controllers must not mutate it; they return the same action state a
+ * human player produces.
+ */
+export interface AISnapshot {
+  self: Readonly<RobotData>;
+  robots: ReadonlyArray<Readonly<RobotData>>;
+  pickups: ReadonlyArray<Pickup>;
+  time: number;
+  difficulty: Difficulty;
+  arena: ArenaDefinition;
+  config: GameConfig;
+  rules: MatchRules;
+  // Seeded by the simulation; use this instead of Math.random() to stay replayable.
+  random: () => number;
+}
+
+export interface AIController {
+  think: (snapshot: AISnapshot) => ControlInput;
+}
+
+const IDLE: ControlInput = { throttle: 0, turn: 0, weapon: false };
+
+export const wrapAngle = (angle: number) => {
+  let a = angle;
+  while (a < -Math.PI) a += Math.PI * 2;
+  while (a > Math.PI) a -= Math.PI * 2;
+  return a;
+};
+
+const headingTo = (from: Readonly<RobotData>, x: number, z: number) =>
+  wrapAngle(Math.atan2(x - from.position.x, z - from.position.z) - from.rotation);
+
+const distance2D = (ax: number, az: number, bx: number, bz: number) => Math.hypot(ax - bx, az - bz);
+
+// Turns toward (x, z) without overshooting and only drives once roughly facing it.
+const steerTo = (snapshot: AISnapshot, x: number, z: number, throttle = 1): ControlInput => {
+  const { self, difficulty, config } = snapshot;
+  const settings = AI_DIFFICULTY[difficulty];
+  const diff = headingTo(self, x, z);
+  const maxTurn = config.turnSpeed * config.enemyTurnMult * settings.turn;
+  return {
+    throttle: Math.abs(diff) < settings.aimTolerance ? throttle : 0,
+    turn: Math.max(-1, Math.min(1, diff / maxTurn)),
+    weapon: false
+  };
+};
+
+// Like steerTo, but backs up instead when the point is behind.
+const steerEitherWay = (snapshot: AISnapshot, x: number, z: number): ControlInput => {
+  const { self } = snapshot;
+  if (Math.abs(headingTo(self, x, z)) <= Math.PI / 2) return steerTo(snapshot, x, z);
+  const behind = steerTo({ ...snapshot, self: { ...self, rotation: wrapAngle(self.rotation + Math.PI) } }, x, z);
+  return { ...behind, throttle: -behind.throttle };
+};
+
+// Robots hunt the other teams (in classic, every AI is on one team against the
+// players); the nearest living one is the target. In king of the hill anyone
+// holding the hill counts as half the distance away.
+const findTarget = ({ self, robots, rules, config }: AISnapshot) => {
+  let target: Readonly<RobotData> | undefined, best = Infinity;
+  robots.forEach(r => {
+    if (r.team === self.team || r.isDead) return;
+    const d = distance2D(r.position.x, r.position.z, self.position.x, self.position.z)
+      * (rules.type === 'koth' && isOnHill(r, config) ? 0.5 : 1);
+    if (d < best) { best = d; target = r; }
+  });
+  return target;
+};
+
+// Where a shove ends a fight: pit centres, or the nearest floor edge on arenas without pits.
+const ringOutPoint = (arena: ArenaDefinition, pits: PitZone[], tx: number, tz: number) => {
+  if (pits.length > 0) {
+    return pits
+      .map(pit => polygonCentroid(pit.polygon))
+      .reduce((a, b) => distance2D(a.x, a.z, tx, tz) < distance2D(b.x, b.z, tx, tz) ? a : b);
+  }
+  const edge = arena.size / 2 + 1;
+  return Math.abs(tx) > Math.abs(tz) ? { x: Math.sign(tx || 1) * edge, z: tz } : { x: tx, z: Math.sign(tz || 1) * edge };
+};
+
+// Tanks line up behind the target on the far side from the nearest pit, then shove.
+const tankController: AIController = {
+  think: (snapshot) => {
+    const { self } = snapshot;
+    const target = findTarget(snapshot);
+    if (!target) return IDLE;
+    const tx = target.position.x, tz = target.position.z;
+    const pit = ringOutPoint(snapshot.arena, openPits(snapshot.arena, pitsReleased(snapshot.config, snapshot.time)), tx, tz);
+    const pitDist = distance2D(pit.x, pit.z, tx, tz) || 1;
+    const pushDirX = (pit.x - tx) / pitDist, pushDirZ = (pit.z - tz) / pitDist;
+    const setupX = tx - pushDirX * ROBOT_RADIUS * 3, setupZ = tz - pushDirZ * ROBOT_RADIUS * 3;
+
+    // Aligned when the target sits between us and the pit.
+    const toTargetX = tx - self.position.x, toTargetZ = tz - self.position.z;
+    const toTargetLen = Math.hypot(toTargetX, toTargetZ) || 1;
+    const alignment = (toTargetX * pushDirX + toTargetZ * pushDirZ) / toTargetLen;
+    if (alignment > 0.8 || toTargetLen < ROBOT_RADIUS * 2.5) {
+      // Fire the ram once lined up and close enough for the charge to connect.
+      return { ...steerTo(snapshot, pit.x, pit.z), weapon: alignment > 0.9 && toTargetLen < ROBOT_RADIUS * 6 };
+    }
+    return steerTo(snapshot, setupX, setupZ);
+  }
+};
+
+// Wedges swing wide to the target's flank, then drive in under it with the plate up.
+const wedgeController: AIController = {
+  think: (snapshot) => {
+    const { self } = snapshot;
+    const target = findTarget(snapshot);
+    if (!target) return IDLE;
+    const tx = target.position.x, tz = target.position.z;
+    const facingX = Math.sin(target.rotation), facingZ = Math.cos(target.rotation);
+    const awayX = self.position.x - tx, awayZ = self.position.z - tz;
+    const dist = Math.hypot(awayX, awayZ) || 1;
+    const frontal = (awayX * facingX + awayZ * facingZ) / dist;
+
+    if (frontal < 0.5) {
+      const attack = steerTo(snapshot, tx, tz);
+      return { ...attack, weapon: dist < ROBOT_RADIUS * 3.5 };
+    }
+    // Flank on whichever side of the target we're already on.
+    const side = Math.sign(facingX * awayZ - facingZ * awayX) || 1;
+    const flankX = tx + facingZ * side * ROBOT_RADIUS * 4 - facingX * ROBOT_RADIUS;
+    const flankZ = tz - facingX * side * ROBOT_RADIUS * 4 - facingZ * ROBOT_RADIUS;
+    return steerTo(snapshot, flankX, flankZ);
+  }
+};
+
+const ORBIT_RADIUS = 4.5;
+// Angles (radians) tried around the target from where the spinner is now, in
+// order: pressing on round the orbit first, then backing off the other way.
+const ORBIT_STEPS = [0.6, 1.2, 1.8, -0.6, -1.2, -1.8, 2.4, -2.4];
+// How far and how far off the line of a ram (rad) a charging tank can knock a
+// spinner, for judging where it's safe to stand.
+const KNOCK_REACH = 8;
+const KNOCK_SPREAD = [0, -0.4, 0.4];
+
+const SPIN_ATTACK_ENERGY = 0.8;
+
+// Whether (x, z) is clear floor that a ram from (fromX, fromZ) couldn't knock
+// into a pit or through a gap in the walls: the tank's line-up, seen from the other side.
+const isSafeSpot = (arena: ArenaDefinition, pits: PitZone[], fromX: number, fromZ: number, x: number, z: number) => {
+  if (!isOpenFloor(arena, x, z, ROBOT_RADIUS)) return false;
+  const ram = Math.atan2(x - fromX, z - fromZ);
+  return !KNOCK_SPREAD.some(off => knockEndsInRingOut(arena, pits, x, z, Math.sin(ram + off), Math.cos(ram + off), KNOCK_REACH));
+};
+
+// Spinners circle at range, spin up once the target is close, and only commit
+// once the disc has enough energy to do real damage. The orbit skips any spot
+// where a ram from the target would put the spinner out, falling back to the
+// target's side nearest the centre.
+const spinnerController: AIController = {
+  think: (snapshot) => {
+    const { self, difficulty } = snapshot;
+    const target = findTarget(snapshot);
+    if (!target) return IDLE;
+    const tx = target.position.x, tz = target.position.z;
+    const dist = distance2D(self.position.x, self.position.z, tx, tz);
+    const range = AI_DIFFICULTY[difficulty].spinUpRange;
+    const engaged = dist < (self.weaponActive ? range * 2 : range);
+    const pits = openPits(snapshot.arena, pitsReleased(snapshot.config, snapshot.time));
+    if (engaged && self.weaponEnergy >= SPIN_ATTACK_ENERGY && isSafeSpot(snapshot.arena, pits, tx, tz, self.position.x, self.position.z)) {
+      return { ...steerTo(snapshot, tx, tz), weapon: true };
+    }
+
+    const from = Math.atan2(self.position.x - tx, self.position.z - tz);
+    const spot = ORBIT_STEPS
+      .map(step => ({ x: tx + Math.sin(from + step) * ORBIT_RADIUS, z: tz + Math.cos(from + step) * ORBIT_RADIUS }))
+      .find(p => isSafeSpot(snapshot.arena, pits, tx, tz, p.x, p.z));
+    const inward = Math.atan2(-tx, -tz);
+    const orbit = spot
+      ? steerEitherWay(snapshot, spot.x, spot.z)
+      : steerTo(snapshot, tx + Math.sin(inward) * ORBIT_RADIUS, tz + Math.cos(inward) * ORBIT_RADIUS);
+    return { ...orbit, weapon: engaged };
+  }
+};
+
+// A pickup worth 1 is worth a detour this many times the distance to the target.
+const PICKUP_GREED = 1.5;
+
+// Repairs are worth more the more battered the robot is; the rest only while not already running.
+const pickupValue = ({ self, time }: AISnapshot, kind: PickupKind) =>
+  kind === 'repair' ? 2 * (1 - self.health / self.maxHealth) : hasEffect(self, kind, time) ? 0 : 1;
+
+// The pickup worth breaking off the attack for, if any.
+const pickupGoal = (snapshot: AISnapshot) => {
+  const { self } = snapshot;
+  const target = findTarget(snapshot);
+  const fightDistance = target ? distance2D(target.position.x, target.position.z, self.position.x, self.position.z) : Infinity;
+  let goal: Pickup | undefined, best = 0;
+  snapshot.pickups.forEach(pickup => {
+    const value = pickupValue(snapshot, pickup.kind);
+    const d = distance2D(pickup.position[0], pickup.position[1], self.position.x, self.position.z);
+    if (value <= 0 || d > fightDistance * value * PICKUP_GREED) return;
+    if (value / (d || 1) > best) { best = value / (d || 1); goal = pickup; }
+  });
+  return goal;
+};
+
+// King of the hill: off the hill with nobody on it to knock off, head for the centre.
+const wantsHill = ({ self, robots, rules, config }: AISnapshot) =>
+  rules.type === 'koth' && !isOnHill(self, config) && !robots.some(r => r.team !== self.team && isOnHill(r, config));
+
+export const AI_CONTROLLERS: Record<RobotType, AIController> = {
+  tank: tankController,
+  wedge: wedgeController,
+  spinner: spinnerController
+};
+
+/**
+ * Runs a controller (by default the one for `self`'s chassis) with
+ * difficulty-based hesitation, unless a nearby pickup is worth more than
+ * pressing the attack or there's an empty hill to take.
+ */
+export const thinkFor = (snapshot: AISnapshot, controller: AIController = AI_CONTROLLERS[snapshot.self.type]): ControlInput => {
+  if (snapshot.random() < AI_DIFFICULTY[snapshot.difficulty].hesitation) return IDLE;
+  const pickup = pickupGoal(snapshot);
+  if (pickup) return steerTo(snapshot, pickup.position[0], pickup.position[1]);
+  if (wantsHill(snapshot)) return steerTo(snapshot, 0, 0);
+  return controller.think(snapshot);
+};
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { getArena } from '../arenas';
+import { knockEndsInRingOut, openPits } from './arena';
+
+const classic = getArena('classic');
+const pits = openPits(classic, false);
+const diagonal = Math.SQRT1_2;
+
+describe('knockEndsInRingOut', () => {
+  it('is stopped by a wall', () => {
+    expect(knockEndsInRingOut(classic, pits, 0, 0, 0, 1, 20)).toBe(false);
+  });
+
+  it('finds the pits behind the gaps in the corners', () => {
+    expect(knockEndsInRingOut(classic, pits, 0, 0, -diagonal, -diagonal, 20)).toBe(true);
+  });
+
+  it('only looks as far as the reach', () => {
+    expect(knockEndsInRingOut(classic, pits, 0, 0, diagonal, diagonal, 4)).toBe(false);
+  });
+
+  it('finds the unwalled edge of the floor', () => {
+    const landslide = getArena('landslide');
+    expect(knockEndsInRingOut(landslide, openPits(landslide, false), 5, 0, 1, 0, 8)).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { ArenaDefinition, PitZone, RobotData, Vec2 } from '../types';
+import { ROBOT_RADIUS } from '../constants';
+
+const DEFAULT_WALL_THICKNESS = 0.5;
+const PILLAR_RADIUS = 0.4;
+const WALL_BOUNCE = -0.3;
+const HAMMER_STRIKE_WINDOW = 0.1; // Seconds at the start of each cycle the head is down
+
+export const pointInPolygon = (x: number, z: number, polygon: Vec2[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, zi] = polygon[i], [xj, zj] = polygon[j];
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+export const polygonCentroid = (polygon: Vec2[]) => {
+  const sum = polygon.reduce((acc, [x, z]) => ({ x: acc.x + x, z: acc.z + z }), { x: 0, z: 0 });
+  return { x: sum.x / polygon.length, z: sum.z / polygon.length };
+};
+
+// Phase in [0, period) for cyclic hazards.
+const cyclePhase = (time: number, period: number, offset = 0) => (((time + offset) % period) + period) % period;
+
+export const isVentActive = (vent: ArenaDefinition['vents'][number], time: number) =>
+  cyclePhase(time, vent.period, vent.offset) < vent.duration;
+
+/** 0 when the hammer head is down on the floor, rising to 1 at the top of its swing. */
+export const hammerLift = (hammer: ArenaDefinition['hammers'][number], time: number) => {
+  const phase = cyclePhase(time, hammer.period, hammer.offset);
+  if (phase < HAMMER_STRIKE_WINDOW) return 0;
+  return Math.min(1, (phase - HAMMER_STRIKE_WINDOW) / (hammer.period * 0.8));
+};
+
+// Pushes the robot out of a circle of radius `reach` around (cx, cz) and damps its approach.
+const pushOutOf = (bot: RobotData, cx: number, cz: number, reach: number) => {
+  const dx = bot.position.x - cx, dz = bot.position.z - cz;
+  const dist = Math.hypot(dx, dz);
+  if (dist >= reach) return;
+  const nx = dist > 0 ? dx / dist : 1, nz = dist > 0 ? dz / dist : 0;
+  bot.position.x = cx + nx * reach;
+  bot.position.z = cz + nz * reach;
+  const into = bot.velocity.x * nx + bot.velocity.z * nz;
+  if (into < 0) {
+    bot.velocity.x += nx * into * (WALL_BOUNCE - 1);
+    bot.velocity.z += nz * into * (WALL_BOUNCE - 1);
+  }
+};
+
+/** Keeps the robot out of walls and pillars. */
+export const collideArena = (bot: RobotData, arena: ArenaDefinition) => {
+  arena.walls.forEach(wall => {
+    const [ax, az] = wall.from, [bx, bz] = wall.to;
+    const abx = bx - ax, abz = bz - az;
+    const lengthSq = abx * abx + abz * abz || 1;
+    const t = Math.max(0, Math.min(1, ((bot.position.x - ax) * abx + (bot.position.z - az) * abz) / lengthSq));
+    pushOutOf(bot, ax + abx * t, az + abz * t, ROBOT_RADIUS + (wall.thickness ?? DEFAULT_WALL_THICKNESS) / 2);
+  });
+  arena.pillars.forEach(([x, z]) => pushOutOf(bot, x, z, ROBOT_RADIUS + PILLAR_RADIUS));
+};
+
+/**
+ * True when a circle of `clearance` around (x, z) is on the floor and clear of
+ * walls, pillars, pits (shut release pits too) and hazards: somewhere a pickup can sit.
+ */
+export const isOpenFloor = (arena: ArenaDefinition, x: number, z: number, clearance: number) => {
+  const edge = arena.size / 2 - clearance;
+  if (Math.abs(x) > edge || Math.abs(z) > edge) return false;
+  const near = (cx: number, cz: number, reach: number) => Math.hypot(x - cx, z - cz) < reach + clearance;
+  if (arena.walls.some(wall => {
+    const [ax, az] = wall.from, [bx, bz] = wall.to;
+    const abx = bx - ax, abz = bz - az;
+    const t = Math.max(0, Math.min(1, ((x - ax) * abx + (z - az) * abz) / (abx * abx + abz * abz || 1)));
+    return near(ax + abx * t, az + abz * t, (wall.thickness ?? DEFAULT_WALL_THICKNESS) / 2);
+  })) return false;
+  if (arena.pillars.some(([px, pz]) => near(px, pz, PILLAR_RADIUS))) return false;
+  if ([...arena.pits, ...arena.releasePits].some(pit => [[0, 0], [1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dz]) =>
+    pointInPolygon(x + dx * clearance, z + dz * clearance, pit.polygon)))) return false;
+  if (arena.spinners.some(spinner => near(spinner.position[0], spinner.position[1], spinner.radius))) return false;
+  if (arena.vents.some(vent => near(vent.position[0], vent.position[1], vent.radius))) return false;
+  return !arena.hammers.some(hammer => {
+    const fx = Math.sin(hammer.rotation), fz = Math.cos(hammer.rotation);
+    const dx = x - hammer.position[0], dz = z - hammer.position[1];
+    const along = dx * fx + dz * fz, across = dx * fz - dz * fx;
+    return along > -clearance && along < hammer.reach + clearance && Math.abs(across) < hammer.width / 2 + clearance;
+  });
+};
+
+/** The pits robots can fall into: the release pits only once they're open. */
+export const openPits = (arena: ArenaDefinition, released: boolean) =>
+  released ? [...arena.pits, ...arena.releasePits] : arena.pits;
+
+// Whether the segment a→b crosses the wall's centre line.
+const crossesWall = (wall: ArenaDefinition['walls'][number], ax: number, az: number, bx: number, bz: number) => {
+  const [cx, cz] = wall.from, [dx, dz] = wall.to;
+  const side = (px: number, pz: number, qx: number, qz: number, rx: number, rz: number) => Math.sign((qx - px) * (rz - pz) - (qz - pz) * (rx - px));
+  return side(ax, az, bx, bz, cx, cz) !== side(ax, az, bx, bz, dx, dz) && side(cx, cz, dx, dz, ax, az) !== side(cx, cz, dx, dz, bx, bz);
+};
+
+/**
+ * True when a robot knocked from (x, z) along the unit direction (dx, dz)
+ * would slide into an open pit or off the floor within `reach`, unless a wall
+ * is in the way first.
+ */
+export const knockEndsInRingOut = (arena: ArenaDefinition, pits: PitZone[], x: number, z: number, dx: number, dz: number, reach: number) => {
+  const edge = arena.size / 2;
+  for (let step = 1; step <= reach; step++) {
+    const ax = x + dx * (step - 1), az = z + dz * (step - 1), bx = x + dx * step, bz = z + dz * step;
+    if (arena.walls.some(wall => crossesWall(wall, ax, az, bx, bz))) return false;
+    if (Math.abs(bx) > edge || Math.abs(bz) > edge || pits.some(pit => pointInPolygon(bx, bz, pit.polygon))) return true;
+  }
+  return false;
+};
+
+/** True once the robot's centre is over an open pit or past the edge of the floor. */
+export const isRingOut = (bot: RobotData, arena: ArenaDefinition, released = false) => {
+  const edge = arena.size / 2 + 0.5;
+  if (Math.abs(bot.position.x) > edge || Math.abs(bot.position.z) > edge) return true;
+  return openPits(arena, released).some(pit => pointInPolygon(bot.position.x, bot.position.z, pit.polygon));
+};
+
+/**
+ * Applies floor hazards for one tick at sim time `now`. Returns the damage the
+ * robot took so the caller can decide on stuns and KOs.
+ */
+export const applyHazards = (bot: RobotData, arena: ArenaDefinition, now: number, dt: number): number => {
+  let damage = 0;
+  const { x, z } = bot.position;
+
+  arena.spinners.forEach(spinner => {
+    const [cx, cz] = spinner.position;
+    if (Math.hypot(x - cx, z - cz) > spinner.radius) return;
+    const angle = spinner.speed * dt;
+    const dx = bot.position.x - cx, dz = bot.position.z - cz;
+    bot.position.x = cx + dx * Math.cos(angle) + dz * Math.sin(angle);
+    bot.position.z = cz - dx * Math.sin(angle) + dz * Math.cos(angle);
+    bot.rotation += angle;
+  });
+
+  arena.vents.forEach(vent => {
+    if (!isVentActive(vent, now)) return;
+    if (Math.hypot(x - vent.position[0], z - vent.position[1]) <= vent.radius + ROBOT_RADIUS * 0.5) damage += vent.damage * dt;
+  });
+
+  arena.hammers.forEach(hammer => {
+    // Only the first tick of each cycle lands, so a robot is hit once per swing.
+    if (cyclePhase(now, hammer.period, hammer.offset) >= dt) return;
+    const fx = Math.sin(hammer.rotation), fz = Math.cos(hammer.rotation);
+    const dx = x - hammer.position[0], dz = z - hammer.position[1];
+    const along = dx * fx + dz * fz, across = dx * fz - dz * fx;
+    if (along < 0 || along > hammer.reach || Math.abs(across) > hammer.width / 2 + ROBOT_RADIUS * 0.5) return;
+    damage += hammer.damage;
+    bot.velocity.x += fx * hammer.knock;
+    bot.velocity.z += fz * hammer.knock;
+  });
+
+  arena.slopes.forEach(slope => {
+    if (x < slope.min[0] || x > slope.max[0] || z < slope.min[1] || z > slope.max[1]) return;
+    bot.velocity.x += slope.push[0];
+    bot.velocity.z += slope.push[1];
+  });
+
+  return damage;
+};
@@ -0,0 +1,123 @@
+import { Vector3 } from 'three';
+import { RobotType, Difficulty, GameConfig } from '../types';
+import { FIXED_TIMESTEP } from '../constants';
+import { getArena } from '../arenas';
+import { createWorld, stepWorldInPlace, getMatchOutcome, WorldInputs } from './world';
+import { createRobot } from './roster';
+import { createRules, assignTeams } from './rules';
+import { AI_CONTROLLERS, thinkFor } from './ai';
+import { createRng } from './rng';
+import { isAirborne } from './weapons';
+
+// A chassis driven by one of the built-in controllers, not necessarily its own.
+export interface BatchBot {
+  chassis: RobotType;
+  controller: RobotType;
+}
+
+export interface BatchConfig {
+  bots: BatchBot[];
+  matches: number;
+  seed: number;
+  arenaId: string;
+  difficulty: Difficulty;
+  // Seconds of sim time before a match is called a draw.
+  maxTime: number;
+  gameConfig: GameConfig;
+}
+
+export interface BatchBotResult {
+  label: string;
+  chassis: RobotType;
+  controller: RobotType;
+  wins: number;
+  winRate: number;
+  // How this bot went out when it lost.
+  ringedOut: number;
+  destroyed: number;
+}
+
+export interface BatchResult {
+  matches: number;
+  draws: number;
+  timeouts: number;
+  averageLength: number;
+  ringOuts: number;
+  kos: number;
+  // Share of all eliminations that were ring-outs; 0 when nobody was eliminated.
+  ringOutShare: number;
+  bots: BatchBotResult[];
+}
+
+const SPAWN_RADIUS = 6;
+
+export const botLabel = (bot: BatchBot, index: number) =>
+  `${index + 1}:${bot.chassis}${bot.controller === bot.chassis ? '' : `/${bot.controller}`}`;
+
+// Bots stand on a ring facing the centre. The ring turns one place each match
+// so no bot keeps the same spawn.
+const createBatchWorld = (config: BatchConfig, match: number) => {
+  const count = config.bots.length;
+  const robots = config.bots.map((bot, i) => {
+    const angle = ((i + match) % count) / count * Math.PI * 2;
+    const position = new Vector3(Math.cos(angle) * SPAWN_RADIUS, 0, Math.sin(angle) * SPAWN_RADIUS);
+    return createRobot(`bot-${i}`, false, bot.chassis, '#ef4444', position, -Math.PI / 2 - angle);
+  });
+  const rules = createRules('ffa', true);
+  return createWorld(assignTeams(robots, rules.type), config.seed + match, getArena(config.arenaId), config.difficulty, config.gameConfig, rules);
+};
+
+/** Plays every match headlessly at the fixed timestep and tallies the outcomes. */
+export const runBatch = (config: BatchConfig): BatchResult => {
+  const results: BatchBotResult[] = config.bots.map((bot, i) => ({
+    label: botLabel(bot, i), chassis: bot.chassis, controller: bot.controller, wins: 0, winRate: 0, ringedOut: 0, destroyed: 0
+  }));
+  let draws = 0, timeouts = 0, totalTime = 0;
+
+  for (let match = 0; match < config.matches; match++) {
+    const world = createBatchWorld(config, match);
+    // Swapped controllers are driven from here with their own seeded stream;
+    // the rest are left to stepWorld's built-in AI.
+    const rng = createRng((config.seed + match) ^ 0x9e3779b9);
+    let outcome = getMatchOutcome(world);
+    while (!outcome && world.time < config.maxTime) {
+      const inputs: WorldInputs = {};
+      world.robots.forEach((bot, i) => {
+        const { chassis, controller } = config.bots[i];
+        if (controller === chassis || bot.isDead || world.time < bot.stunnedUntil || isAirborne(bot, world.time)) return;
+        inputs[bot.id] = thinkFor({
+          self: bot, robots: world.robots, pickups: world.pickups, time: world.time, difficulty: world.difficulty, arena: world.arena,
+          config: world.config, rules: world.rules, random: rng.next
+        }, AI_CONTROLLERS[controller]);
+      });
+      stepWorldInPlace(world, inputs, FIXED_TIMESTEP);
+      world.events.forEach(event => {
+        if (event.type !== 'ringOut' && event.type !== 'destroyed') return;
+        const index = world.robots.findIndex(r => r.id === event.robotId);
+        if (event.type === 'ringOut') results[index].ringedOut++;
+        else results[index].destroyed++;
+      });
+      outcome = getMatchOutcome(world);
+    }
+
+    totalTime += world.time;
+    if (!outcome) timeouts++;
+    const winner = outcome?.winnerId ? world.robots.findIndex(r => r.id === outcome!.winnerId) : -1;
+    if (winner >= 0) results[winner].wins++;
+    else draws++;
+  }
+
+  const ringOuts = results.reduce((sum, r) => sum + r.ringedOut, 0);
+  const kos = results.reduce((sum, r) => sum + r.destroyed, 0);
+  results.forEach(r => { r.winRate = config.matches ? r.wins / config.matches : 0; });
+  return {
+    matches: config.matches,
+    draws,
+    timeouts,
+    averageLength: config.matches ? totalTime / config.matches : 0,
+    ringOuts,
+    kos,
+    ringOutShare: ringOuts + kos ? ringOuts / (ringOuts + kos) : 0,
+    bots: results
+  };
+};
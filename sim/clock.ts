@@ -0,0 +1,16 @@
+import { GameConfig } from '../types';
+
+export const isTimed = (config: GameConfig) => config.matchTime > 0;
+
+/** Seconds until the bell, or null in an untimed match. */
+export const timeLeft = (config: GameConfig, time: number) =>
+  isTimed(config) ? Math.max(0, config.matchTime - time) : null;
+
+/** Sim time the release pits open, or null when there's no pit release. */
+export const releaseTime = (config: GameConfig) =>
+  isTimed(config) && config.pitRelease > 0 ? Math.max(0, config.matchTime - config.pitRelease) : null;
+
+export const pitsReleased = (config: GameConfig, time: number) => {
+  const at = releaseTime(config);
+  return at !== null && time >= at;
+};
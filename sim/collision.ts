@@ -0,0 +1,115 @@
+import { Vector3 } from 'three';
+import { RobotData, GameConfig, ArmorSide } from '../types';
+import { ROBOT_RADIUS } from '../constants';
+import { resolveWeaponHit, WeaponHit } from './weapons';
+import { SimEvent } from './events';
+import { impactSide, armorPenalty, routeDamage } from './subsystems';
+import { overchargeFactor, shieldFactor } from './pickups';
+
+const CONTACT_DISTANCE = ROBOT_RADIUS * 2.1;
+const FACING_ARC = 0.5; // cos(60deg): inside this either side of the nose is "front", of the tail "rear"
+
+export type ImpactFacing = 'front' | 'side' | 'rear';
+
+// Scratch vectors: collisions resolve one at a time, so these are never shared.
+const normal = new Vector3();
+const toAttacker1 = new Vector3();
+const relative = new Vector3();
+
+export const impactFacing = (defender: RobotData, toAttacker: Vector3): ImpactFacing => {
+  const cos = Math.sin(defender.rotation) * toAttacker.x + Math.cos(defender.rotation) * toAttacker.z;
+  if (cos > FACING_ARC) return 'front';
+  if (cos < -FACING_ARC) return 'rear';
+  return 'side';
+};
+
+// Rear hits hurt more; a wedge's front plate shrugs most of a hit off. Worn
+// panels let more through.
+const armorFor = (defender: RobotData, toAttacker: Vector3, config: GameConfig) => {
+  const facing = impactFacing(defender, toAttacker);
+  const side = impactSide(defender, toAttacker);
+  const penalty = armorPenalty(defender, side, config);
+  if (defender.type === 'wedge' && facing === 'front') return { side, damage: config.wedgeFrontDeflect * penalty, knock: config.wedgeDeflectKnock };
+  return { side, damage: config.armorFacing[facing] * penalty, knock: 1 };
+};
+
+const HARMLESS: WeaponHit = { knock: 0, damage: 0, recoil: 0 };
+
+const overcharged = (hit: WeaponHit, attacker: RobotData, now: number, config: GameConfig): WeaponHit => {
+  const factor = overchargeFactor(attacker, now, config);
+  return factor === 1 ? hit : { ...hit, knock: hit.knock * factor, damage: hit.damage * factor };
+};
+
+// Twist from a push along the attacker's heading landing on the defender's rim
+// at `toAttacker`. Head-on pushes pass through the centre and impart nothing.
+const applySpin = (defender: RobotData, attacker: RobotData, toAttacker: Vector3, impulse: number, config: GameConfig) => {
+  const pushX = Math.sin(attacker.rotation) * impulse, pushZ = Math.cos(attacker.rotation) * impulse;
+  const torque = (toAttacker.z * pushX - toAttacker.x * pushZ) * ROBOT_RADIUS;
+  const mass = config.chassisMass[defender.type];
+  defender.angularVelocity += (torque * config.spinTransfer) / (mass * config.spinInertia * ROBOT_RADIUS * ROBOT_RADIUS);
+};
+
+/**
+ * Separates and resolves a contact between two robots: mass-weighted
+ * de-penetration, a restitution impulse from their closing speed, the base
+ * knockback and any weapon hits (scaled by each side's facing armour), and
+ * spin from off-centre pushes. Damage also wears the struck panel and the
+ * part behind it; pickup shields and overcharge apply here too. Teammates
+ * without friendly fire (`harmful` false) only bump. Contacts, damage and KOs
+ * are appended to `events`. Returns false when they aren't touching.
+ */
+export const resolveCollision = (r1: RobotData, r2: RobotData, now: number, config: GameConfig, events: SimEvent[], harmful = true): boolean => {
+  const dist = r1.position.distanceTo(r2.position);
+  if (dist >= CONTACT_DISTANCE) return false;
+
+  // From r2 towards r1.
+  if (dist > 0) normal.subVectors(r1.position, r2.position).divideScalar(dist);
+  else normal.set(1, 0, 0);
+  const inv1 = 1 / config.chassisMass[r1.type], inv2 = 1 / config.chassisMass[r2.type];
+  const invSum = inv1 + inv2;
+
+  const overlap = CONTACT_DISTANCE - dist;
+  r1.position.addScaledVector(normal, overlap * 0.8 * (inv1 / invSum));
+  r2.position.addScaledVector(normal, -overlap * 0.8 * (inv2 / invSum));
+
+  const closing = relative.subVectors(r1.velocity, r2.velocity).dot(normal);
+  const bounce = closing < 0 ? (-(1 + config.restitution) * closing) / invSum : 0;
+
+  const hit1 = harmful ? overcharged(resolveWeaponHit(r1, r2, now, config), r1, now, config) : HARMLESS;
+  const hit2 = harmful ? overcharged(resolveWeaponHit(r2, r1, now, config), r2, now, config) : HARMLESS;
+  toAttacker1.copy(normal).negate(); // r1 is struck from r2's side
+  const armor1 = armorFor(r1, toAttacker1, config), armor2 = armorFor(r2, normal, config);
+
+  const impulse1 = (config.knockbackForce + hit2.knock) * armor1.knock;
+  const impulse2 = (config.knockbackForce + hit1.knock) * armor2.knock;
+  r1.velocity.addScaledVector(normal, (bounce + impulse1 + hit1.recoil) * inv1);
+  r2.velocity.addScaledVector(normal, -(bounce + impulse2 + hit2.recoil) * inv2);
+  events.push({
+    type: 'collision',
+    time: now,
+    robotIds: [r1.id, r2.id],
+    position: [(r1.position.x + r2.position.x) / 2, (r1.position.z + r2.position.z) / 2],
+    closingSpeed: Math.max(0, -closing),
+    impulse: bounce + impulse1 + impulse2
+  });
+  applySpin(r1, r2, toAttacker1, impulse1, config);
+  applySpin(r2, r1, normal, impulse2, config);
+
+  if (harmful) {
+    applyDamage(r1, r2, (1 + hit2.damage) * armor1.damage, armor1.side, hit2, now, config, events);
+    applyDamage(r2, r1, (1 + hit1.damage) * armor2.damage, armor2.side, hit1, now, config, events);
+  }
+  r1.stunnedUntil = now + 0.2; r2.stunnedUntil = now + 0.2;
+  return true;
+};
+
+const applyDamage = (target: RobotData, attacker: RobotData, amount: number, side: ArmorSide, hit: WeaponHit, now: number, config: GameConfig, events: SimEvent[]) => {
+  const damage = Math.min(target.health, amount * shieldFactor(target, now, config));
+  target.health -= damage;
+  routeDamage(target, side, damage, config);
+  events.push({ type: 'damage', time: now, targetId: target.id, sourceId: attacker.id, amount: damage, weapon: hit.damage > 0 });
+  if (target.health <= 0) {
+    target.isDead = true;
+    events.push({ type: 'destroyed', time: now, robotId: target.id, byId: attacker.id });
+  }
+};
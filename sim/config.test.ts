@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_GAME_CONFIG } from '../constants';
+import { parseGameConfig, resolveGameConfig, GameConfigError } from './config';
+
+describe('parseGameConfig', () => {
+  it('accepts the defaults', () => {
+    expect(parseGameConfig(structuredClone(DEFAULT_GAME_CONFIG))).toEqual(DEFAULT_GAME_CONFIG);
+  });
+
+  it.each([
+    ['a missing field', { friction: undefined }],
+    ['a string', { friction: '0.9' }],
+    ['NaN', { matchTime: NaN }],
+    ['a negative value', { matchTime: -1 }],
+    ['a fraction above 1', { friction: 1.2 }],
+    ['a zero mass', { chassisMass: { ...DEFAULT_GAME_CONFIG.chassisMass, tank: 0 } }],
+    ['a missing per-type value', { chassisMass: { spinner: 1, wedge: 1 } }],
+    ['a number in place of a record', { judgePoints: 3 }]
+  ])('rejects %s', (_, patch) => {
+    expect(() => parseGameConfig({ ...structuredClone(DEFAULT_GAME_CONFIG), ...patch })).toThrow(GameConfigError);
+  });
+
+  it('rejects a non-object', () => {
+    expect(() => parseGameConfig(null)).toThrow(GameConfigError);
+    expect(() => parseGameConfig('config')).toThrow(GameConfigError);
+  });
+});
+
+describe('resolveGameConfig', () => {
+  it('merges per-type overrides into the defaults', () => {
+    const config = resolveGameConfig({ matchTime: 90, chassisMass: { tank: 2 } });
+    expect(config.matchTime).toBe(90);
+    expect(config.chassisMass).toEqual({ ...DEFAULT_GAME_CONFIG.chassisMass, tank: 2 });
+    expect(DEFAULT_GAME_CONFIG.chassisMass.tank).not.toBe(2);
+  });
+
+  it('rejects unknown and invalid overrides', () => {
+    expect(() => resolveGameConfig({ turbo: 1 } as never)).toThrow(GameConfigError);
+    expect(() => resolveGameConfig({ friction: 2 })).toThrow(GameConfigError);
+  });
+});
@@ -0,0 +1,66 @@
+import { GameConfig, GameConfigOverrides } from '../types';
+import { DEFAULT_GAME_CONFIG } from '../constants';
+
+export class GameConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GameConfigError';
+  }
+}
+
+type Rule = 'nonNegative' | 'positive' | 'fraction';
+
+// Masses and inertia are divided by; friction-style factors must not add energy.
+const RULES: Partial<Record<keyof GameConfig, Rule>> = {
+  chassisMass: 'positive',
+  spinInertia: 'positive',
+  friction: 'fraction',
+  liftedFriction: 'fraction',
+  angularDamping: 'fraction',
+  minTraction: 'fraction',
+  repairAmount: 'fraction',
+  shieldFactor: 'fraction'
+};
+
+const checkNumber = (path: string, value: unknown, rule: Rule) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new GameConfigError(`Config "${path}" must be a number`);
+  if (rule === 'positive' && value <= 0) throw new GameConfigError(`Config "${path}" must be above 0`);
+  if (value < 0) throw new GameConfigError(`Config "${path}" can't be negative`);
+  if (rule === 'fraction' && value > 1) throw new GameConfigError(`Config "${path}" must be between 0 and 1`);
+};
+
+/**
+ * Validates a complete config (from a replay file, a host's start message or
+ * a merge of overrides). The shape is taken from DEFAULT_GAME_CONFIG, so a new
+ * field only needs adding there and in the GameConfig type.
+ */
+export const parseGameConfig = (value: unknown): GameConfig => {
+  if (!value || typeof value !== 'object') throw new GameConfigError('Config must be an object');
+  const data = value as Record<string, unknown>;
+  (Object.keys(DEFAULT_GAME_CONFIG) as (keyof GameConfig)[]).forEach(key => {
+    const rule = RULES[key] ?? 'nonNegative';
+    const fallback = DEFAULT_GAME_CONFIG[key];
+    if (typeof fallback === 'number') {
+      checkNumber(key, data[key], rule);
+      return;
+    }
+    const record = data[key];
+    if (!record || typeof record !== 'object') throw new GameConfigError(`Config "${key}" must be an object`);
+    Object.keys(fallback).forEach(sub => checkNumber(`${key}.${sub}`, (record as Record<string, unknown>)[sub], rule));
+  });
+  return data as unknown as GameConfig;
+};
+
+const applyOverrides = (config: GameConfig, overrides: GameConfigOverrides): GameConfig => {
+  const next: Record<string, unknown> = { ...config };
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (!(key in config)) throw new GameConfigError(`Unknown config "${key}"`);
+    const base = config[key as keyof GameConfig];
+    next[key] = typeof base === 'number' ? value : { ...base, ...(value as object) };
+  });
+  return next as unknown as GameConfig;
+};
+
+/** The defaults with this match's overrides on top; the result is validated. */
+export const resolveGameConfig = (overrides: GameConfigOverrides = {}): GameConfig =>
+  parseGameConfig(applyOverrides(DEFAULT_GAME_CONFIG, overrides));
@@ -0,0 +1,16 @@
+import { PickupKind } from '../types';
+
+// Things that happened during one simulation tick. `stepWorld` collects them on
+// the returned world; GameLoop publishes them on the game event bus.
+export type SimEvent =
+  // `impulse` is the total knockback exchanged; `position` is the contact point [x, z].
+  | { type: 'collision'; time: number; robotIds: [string, string]; position: [number, number]; closingSpeed: number; impulse: number }
+  | { type: 'damage'; time: number; targetId: string; sourceId: string | null; amount: number; weapon: boolean }
+  | { type: 'weaponToggle'; time: number; robotId: string; active: boolean }
+  // Pushed out of the arena or into a pit. Whoever pushed isn't known to the sim.
+  | { type: 'ringOut'; time: number; robotId: string }
+  // Hull reached zero; `byId` is null for hazard kills.
+  | { type: 'destroyed'; time: number; robotId: string; byId: string | null }
+  | { type: 'pickup'; time: number; robotId: string; kind: PickupKind };
+
+export type SimEventType = SimEvent['type'];
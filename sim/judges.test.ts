@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { getArena } from '../arenas';
+import { DEFAULT_GAME_CONFIG } from '../constants';
+import { RobotData } from '../types';
+import { createRobot } from './roster';
+import { createWorld, getMatchOutcome } from './world';
+import { judgeDecision, judgeScores } from './judges';
+
+const robot = (id: string, team: number, damage: number, aggression: number, control: number): RobotData => ({
+  ...createRobot(id, id === 'p', 'wedge', '#fff', new Vector3(0, 0, 0), 0),
+  team,
+  scorecard: { damage, aggression, control }
+});
+
+const worldOf = (robots: RobotData[], time = 0) => ({ ...createWorld(robots, 1, getArena('classic'), 'normal', { ...DEFAULT_GAME_CONFIG, matchTime: 60 }), time });
+
+describe('judges', () => {
+  it('splits each category between the survivors', () => {
+    const scores = judgeScores(worldOf([robot('p', 0, 30, 10, 0), robot('e', 1, 10, 10, 0)]));
+    const { judgePoints } = DEFAULT_GAME_CONFIG;
+    expect(scores.map(s => s.robotId)).toEqual(['p', 'e']);
+    expect(scores[0].points.damage).toBeCloseTo(judgePoints.damage * 0.75);
+    expect(scores[0].points.aggression).toBeCloseTo(judgePoints.aggression / 2);
+    // Nobody earned control, so it's shared evenly.
+    expect(scores[1].points.control).toBeCloseTo(judgePoints.control / 2);
+    expect(scores.reduce((sum, s) => sum + s.total, 0)).toBeCloseTo(judgePoints.damage + judgePoints.aggression + judgePoints.control);
+  });
+
+  it('leaves the dead out', () => {
+    const dead = { ...robot('e0', 1, 100, 100, 100), isDead: true };
+    expect(judgeScores(worldOf([robot('p', 0, 1, 1, 1), dead, robot('e1', 2, 0, 0, 0)])).map(s => s.robotId)).toEqual(['p', 'e1']);
+  });
+
+  it('gives it to the top scorer rather than the bigger team', () => {
+    const outcome = judgeDecision(worldOf([robot('p', 0, 40, 20, 10), robot('e0', 1, 30, 15, 5), robot('e1', 1, 30, 15, 5)]));
+    expect(outcome.winnerId).toBe('p');
+    expect(outcome.winningTeam).toBe(0);
+  });
+
+  it('scores a dead heat as a draw', () => {
+    const outcome = judgeDecision(worldOf([robot('p', 0, 10, 5, 5), robot('e', 1, 10, 5, 5)]));
+    expect(outcome.winnerId).toBeNull();
+    expect(outcome.winningTeam).toBeNull();
+    expect(outcome.decision).toHaveLength(2);
+  });
+
+  it('goes to the judges at the bell', () => {
+    const robots = [robot('p', 0, 10, 5, 5), robot('e', 1, 0, 0, 0)];
+    expect(getMatchOutcome(worldOf(robots, 59.9))).toBeNull();
+    expect(getMatchOutcome(worldOf(robots, 60))?.winnerId).toBe('p');
+  });
+});
@@ -0,0 +1,111 @@
+import { ArenaDefinition, PitZone, RobotData, Scorecard } from '../types';
+import { ROBOT_RADIUS } from '../constants';
+import { pointInPolygon, openPits } from './arena';
+import { pitsReleased } from './clock';
+import { SimEvent } from './events';
+import type { World, MatchOutcome } from './world';
+
+export const SCORE_CATEGORIES: (keyof Scorecard)[] = ['damage', 'aggression', 'control'];
+
+// Speed (per tick) towards an enemy that counts as closing in.
+const CLOSING_SPEED = 0.01;
+// Centre distance that counts as touching.
+const CONTACT_RANGE = ROBOT_RADIUS * 2 + 0.2;
+// How far past the robot being pushed to look for a wall or pit.
+const SHOVE_REACH = 4;
+
+// One survivor's points from the judges, `points` split by category.
+export interface JudgeScore {
+  robotId: string;
+  team: number;
+  points: Scorecard;
+  total: number;
+}
+
+export const createScorecard = (): Scorecard => ({ damage: 0, aggression: 0, control: 0 });
+
+const speedTowards = (bot: RobotData, x: number, z: number) => {
+  const dx = x - bot.position.x, dz = z - bot.position.z;
+  const dist = Math.hypot(dx, dz) || 1;
+  return (bot.velocity.x * dx + bot.velocity.z * dz) / dist;
+};
+
+// Whether driving into `target` from where `bot` is shoves it at the edge of
+// the floor (walled or not) or an open pit.
+const shovesTowardDanger = (bot: RobotData, target: RobotData, dist: number, arena: ArenaDefinition, pits: PitZone[]) => {
+  const dx = (target.position.x - bot.position.x) / (dist || 1), dz = (target.position.z - bot.position.z) / (dist || 1);
+  const edge = arena.size / 2 - ROBOT_RADIUS;
+  for (let step = 1; step <= SHOVE_REACH; step++) {
+    const x = target.position.x + dx * step, z = target.position.z + dz * step;
+    if (Math.abs(x) > edge || Math.abs(z) > edge || pits.some(pit => pointInPolygon(x, z, pit.polygon))) return true;
+  }
+  return false;
+};
+
+/**
+ * Adds one tick to every scorecard: damage this tick's events credit to a
+ * robot on another team, time spent driving at the nearest enemy, and time
+ * spent shoving one that's heading for a wall or pit.
+ */
+export const updateScorecards = (world: World, events: SimEvent[], dt: number) => {
+  const { robots } = world;
+  events.forEach(event => {
+    if (event.type !== 'damage' || !event.sourceId) return;
+    const source = robots.find(r => r.id === event.sourceId);
+    const target = robots.find(r => r.id === event.targetId);
+    if (source && target && source.team !== target.team) source.scorecard.damage += event.amount;
+  });
+
+  const pits = openPits(world.arena, pitsReleased(world.config, world.time));
+  robots.forEach(bot => {
+    if (bot.isDead) return;
+    let nearest: RobotData | null = null, nearestDist = Infinity, shoving = false;
+    for (const other of robots) {
+      if (other.isDead || other.team === bot.team) continue;
+      const dist = Math.hypot(other.position.x - bot.position.x, other.position.z - bot.position.z);
+      if (dist < nearestDist) {
+        nearest = other;
+        nearestDist = dist;
+      }
+      if (dist <= CONTACT_RANGE && speedTowards(bot, other.position.x, other.position.z) >= CLOSING_SPEED
+        && shovesTowardDanger(bot, other, dist, world.arena, pits)) shoving = true;
+    }
+    if (nearest && speedTowards(bot, nearest.position.x, nearest.position.z) >= CLOSING_SPEED) bot.scorecard.aggression += dt;
+    if (shoving) bot.scorecard.control += dt;
+  });
+};
+
+// Each category's points are split in proportion to the survivors' totals, evenly if nobody has any.
+const share = (bot: RobotData, survivors: RobotData[], category: keyof Scorecard, points: number) => {
+  const total = survivors.reduce((sum, r) => sum + r.scorecard[category], 0);
+  return points * (total > 0 ? bot.scorecard[category] / total : 1 / survivors.length);
+};
+
+/** The survivors' scores, best first. */
+export const judgeScores = ({ robots, config }: World): JudgeScore[] => {
+  const survivors = robots.filter(r => !r.isDead);
+  return survivors.map(bot => {
+    const points = {
+      damage: share(bot, survivors, 'damage', config.judgePoints.damage),
+      aggression: share(bot, survivors, 'aggression', config.judgePoints.aggression),
+      control: share(bot, survivors, 'control', config.judgePoints.control)
+    };
+    return { robotId: bot.id, team: bot.team, points, total: points.damage + points.aggression + points.control };
+  }).sort((a, b) => b.total - a.total);
+};
+
+/**
+ * The judges' decision at the bell: the top-scoring survivor takes it for
+ * their team, so a lone player isn't outvoted by a team's combined points.
+ * A dead heat between two teams is a draw.
+ */
+export const judgeDecision = (world: World): MatchOutcome => {
+  const scores = judgeScores(world);
+  const [best] = scores;
+  const tied = scores.some(s => s.team !== best.team && s.total === best.total);
+  return {
+    winnerId: tied ? null : best.robotId,
+    winningTeam: tied ? null : best.team,
+    decision: scores
+  };
+};
@@ -0,0 +1,94 @@
+import { GameConfig, PickupKind, RobotData, Vec2 } from '../types';
+import { ROBOT_RADIUS, PICKUP_RADIUS } from '../constants';
+import { isOpenFloor } from './arena';
+import { isAirborne } from './weapons';
+import { SimEvent } from './events';
+import { Rng } from './rng';
+import type { World } from './world';
+
+export const PICKUP_KINDS: PickupKind[] = ['repair', 'overdrive', 'shield', 'overcharge'];
+
+export type TimedPickup = Exclude<PickupKind, 'repair'>;
+
+// The RobotData field each timed effect runs until.
+export const EFFECT_TIMERS: Record<TimedPickup, 'overdriveUntil' | 'shieldUntil' | 'overchargeUntil'> = {
+  overdrive: 'overdriveUntil',
+  shield: 'shieldUntil',
+  overcharge: 'overchargeUntil'
+};
+
+const SPAWN_ATTEMPTS = 12;
+// Keeps spawns off robots and each other, and far enough from walls and pits to reach safely.
+const SPAWN_CLEARANCE = ROBOT_RADIUS * 1.5;
+
+export const hasEffect = (bot: RobotData, kind: TimedPickup, now: number) => now < bot[EFFECT_TIMERS[kind]];
+
+export const overdriveBoost = (bot: RobotData, now: number, config: GameConfig) =>
+  hasEffect(bot, 'overdrive', now) ? config.overdriveBoost : 1;
+
+/** Share of incoming damage that gets through. */
+export const shieldFactor = (bot: RobotData, now: number, config: GameConfig) =>
+  hasEffect(bot, 'shield', now) ? config.shieldFactor : 1;
+
+export const overchargeFactor = (bot: RobotData, now: number, config: GameConfig) =>
+  hasEffect(bot, 'overcharge', now) ? config.overchargeFactor : 1;
+
+const restore = (value: number, amount: number) => Math.min(1, value + amount);
+
+export const applyPickup = (bot: RobotData, kind: PickupKind, now: number, config: GameConfig) => {
+  if (kind !== 'repair') {
+    bot[EFFECT_TIMERS[kind]] = now + config.pickupDuration;
+    return;
+  }
+  bot.health = Math.min(bot.maxHealth, bot.health + bot.maxHealth * config.repairAmount);
+  const parts = bot.subsystems;
+  parts.driveLeft = restore(parts.driveLeft, config.repairAmount);
+  parts.driveRight = restore(parts.driveRight, config.repairAmount);
+  parts.weapon = restore(parts.weapon, config.repairAmount);
+  (Object.keys(parts.armor) as (keyof typeof parts.armor)[]).forEach(side => {
+    parts.armor[side] = restore(parts.armor[side], config.repairAmount);
+  });
+};
+
+const isClear = (world: World, x: number, z: number) =>
+  isOpenFloor(world.arena, x, z, SPAWN_CLEARANCE)
+  && world.robots.every(r => r.isDead || Math.hypot(r.position.x - x, r.position.z - z) >= SPAWN_CLEARANCE * 2)
+  && world.pickups.every(p => Math.hypot(p.position[0] - x, p.position[1] - z) >= SPAWN_CLEARANCE * 2);
+
+const findSpawnPoint = (world: World, rng: Rng): Vec2 | null => {
+  for (let i = 0; i < SPAWN_ATTEMPTS; i++) {
+    const x = (rng.next() - 0.5) * world.arena.size, z = (rng.next() - 0.5) * world.arena.size;
+    if (isClear(world, x, z)) return [x, z];
+  }
+  return null;
+};
+
+/**
+ * Hands each pickup to the first grounded robot over it, then spawns a new one
+ * every `pickupInterval` while fewer than `pickupLimit` are out. A spawn with no
+ * open floor is skipped until the next interval. `world.pickups` is replaced
+ * rather than edited, so worlds cloned by `stepWorld` can share it.
+ */
+export const updatePickups = (world: World, now: number, rng: Rng, events: SimEvent[]) => {
+  const { config } = world;
+  if (config.pickupInterval <= 0) return;
+  const reach = ROBOT_RADIUS + PICKUP_RADIUS;
+
+  const remaining = world.pickups.filter(pickup => {
+    const bot = world.robots.find(r => !r.isDead && !isAirborne(r, now)
+      && Math.hypot(r.position.x - pickup.position[0], r.position.z - pickup.position[1]) < reach);
+    if (!bot) return true;
+    applyPickup(bot, pickup.kind, now, config);
+    events.push({ type: 'pickup', time: now, robotId: bot.id, kind: pickup.kind });
+    return false;
+  });
+  if (remaining.length !== world.pickups.length) world.pickups = remaining;
+
+  if (now < world.nextPickupAt) return;
+  world.nextPickupAt = now + config.pickupInterval;
+  if (world.pickups.length >= config.pickupLimit) return;
+  const position = findSpawnPoint(world, rng);
+  if (!position) return;
+  const kind = PICKUP_KINDS[Math.floor(rng.next() * PICKUP_KINDS.length)];
+  world.pickups = [...world.pickups, { id: world.tick, kind, position }];
+};
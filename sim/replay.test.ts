@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { getArena } from '../arenas';
+import { FIXED_TIMESTEP } from '../constants';
+import { createRobot } from './roster';
+import { createWorld, stepWorld, World, WorldInputs } from './world';
+import { createReplay, recordTick, seekReplay, serializeReplay, parseReplay, serializeRobot, ReplayFormatError } from './replay';
+
+const snapshot = (world: World) => JSON.stringify({ tick: world.tick, rngState: world.rngState, robots: world.robots.map(serializeRobot), pickups: world.pickups });
+
+const inputsAt = (tick: number): WorldInputs => ({ p: { throttle: tick % 240 < 160 ? 1 : -0.5, turn: tick % 90 < 30 ? -1 : 0, weapon: tick % 150 < 40 } });
+
+// Plays and records a match, keeping the live world at every tick in `keep`.
+const record = (ticks: number, keep: number[]) => {
+  let world = createWorld([
+    createRobot('p', true, 'wedge', '#fff', new Vector3(-4, 0, 0), Math.PI / 2),
+    createRobot('e0', false, 'spinner', '#f00', new Vector3(4, 0, 2), -Math.PI / 2),
+    createRobot('e1', false, 'tank', '#0f0', new Vector3(4, 0, -4), -Math.PI / 2)
+  ], 42, getArena('foundry'));
+  const replay = createReplay(world);
+  const kept = new Map<number, string>([[0, snapshot(world)]]);
+  for (let t = 0; t < ticks; t++) {
+    const inputs = inputsAt(t);
+    recordTick(replay, inputs);
+    world = stepWorld(world, inputs, FIXED_TIMESTEP);
+    if (keep.includes(world.tick)) kept.set(world.tick, snapshot(world));
+  }
+  return { replay, world, kept };
+};
+
+describe('replays', () => {
+  const { replay, world, kept } = record(1500, [1, 299, 300, 301, 777]);
+
+  it('seeks to the end of the recording', () => {
+    expect(snapshot(seekReplay(replay, replay.tickCount))).toBe(snapshot(world));
+  });
+
+  it.each([0, 1, 299, 300, 301, 777])('seeks to tick %i', tick => {
+    expect(snapshot(seekReplay(replay, tick))).toBe(kept.get(tick));
+  });
+
+  it('seeks backwards after seeking forwards', () => {
+    seekReplay(replay, 1200);
+    expect(snapshot(seekReplay(replay, 299))).toBe(kept.get(299));
+  });
+
+  it('clamps seeks past either end', () => {
+    expect(seekReplay(replay, -10).tick).toBe(0);
+    expect(snapshot(seekReplay(replay, replay.tickCount + 100))).toBe(snapshot(world));
+  });
+
+  it('still seeks correctly after the recording grows', () => {
+    const live = record(400, []);
+    seekReplay(live.replay, 400);
+    let world = live.world;
+    for (let t = 400; t < 700; t++) {
+      recordTick(live.replay, inputsAt(t));
+      world = stepWorld(world, inputsAt(t), FIXED_TIMESTEP);
+    }
+    expect(snapshot(seekReplay(live.replay, 700))).toBe(snapshot(world));
+  });
+
+  it('plays back the same after a trip through a file', () => {
+    expect(snapshot(seekReplay(parseReplay(serializeReplay(replay)), replay.tickCount))).toBe(snapshot(world));
+  });
+
+  it('rejects a file from another version', () => {
+    expect(() => parseReplay(JSON.stringify({ ...replay, version: replay.version - 1 }))).toThrow(ReplayFormatError);
+  });
+
+  it('rejects an embedded arena with a broken hazard', () => {
+    const arena = { ...replay.arena, vents: [{ position: [0, 0], radius: 1, period: 0, duration: 1, damage: 5 }] };
+    expect(() => parseReplay(JSON.stringify({ ...replay, arena }))).toThrow(ReplayFormatError);
+  });
+});
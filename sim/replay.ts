@@ -0,0 +1,177 @@
+import { Vector3 } from 'three';
+import { RobotData, ControlInput, Difficulty, ArenaDefinition, GameConfig, MatchRules } from '../types';
+import { FIXED_TIMESTEP, REPLAY_KEYFRAME_INTERVAL } from '../constants';
+import { parseArena, ArenaFormatError } from '../arenas';
+import { parseGameConfig, GameConfigError } from './config';
+import { World, WorldInputs, createWorld, cloneRobot, stepWorldInPlace } from './world';
+import { cloneSubsystems } from './subsystems';
+import { isMatchRules } from './rules';
+
+// Bump whenever the simulation or roster shape changes; older files won't reproduce.
+// v2: AI difficulty. v3: garage stats. v4: per-chassis weapon state. v5: mass and spin.
+// v6: arena definition. v7: game config. v8: subsystem damage. v9: pickups.
+// v10: match rules and teams. v11: match clock, release pits and scorecards.
+export const REPLAY_VERSION = 11;
+
+type Vec3Tuple = [number, number, number];
+
+export interface ReplayRobot extends Omit<RobotData, 'position' | 'velocity' | 'prevPosition'> {
+  position: Vec3Tuple;
+  velocity: Vec3Tuple;
+  prevPosition: Vec3Tuple;
+}
+
+// Inputs only change when a key does, so ticks are stored as change points:
+// each frame's inputs hold from its tick until the next frame's tick.
+export interface ReplayFrame {
+  tick: number;
+  inputs: WorldInputs;
+}
+
+export interface Replay {
+  version: typeof REPLAY_VERSION;
+  timestep: number;
+  recordedAt: string;
+  seed: number;
+  difficulty: Difficulty;
+  // The full definition rather than an id, so edited or custom arenas still replay.
+  arena: ArenaDefinition;
+  config: GameConfig;
+  rules: MatchRules;
+  roster: ReplayRobot[];
+  frames: ReplayFrame[];
+  tickCount: number;
+}
+
+export class ReplayFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReplayFormatError';
+  }
+}
+
+const toTuple = (v: Vector3): Vec3Tuple => [v.x, v.y, v.z];
+
+export const serializeRobot = (robot: RobotData): ReplayRobot => ({
+  ...robot,
+  position: toTuple(robot.position),
+  velocity: toTuple(robot.velocity),
+  prevPosition: toTuple(robot.prevPosition),
+  subsystems: cloneSubsystems(robot.subsystems),
+  scorecard: { ...robot.scorecard }
+});
+
+export const deserializeRobot = (robot: ReplayRobot): RobotData => ({
+  ...robot,
+  position: new Vector3(...robot.position),
+  velocity: new Vector3(...robot.velocity),
+  prevPosition: new Vector3(...robot.prevPosition),
+  subsystems: cloneSubsystems(robot.subsystems),
+  scorecard: { ...robot.scorecard }
+});
+
+const sameInput = (a: ControlInput | undefined, b: ControlInput | undefined) =>
+  !!a && !!b && a.throttle === b.throttle && a.turn === b.turn && a.weapon === b.weapon;
+
+const sameInputs = (a: WorldInputs, b: WorldInputs) => {
+  const ids = Object.keys(a);
+  return ids.length === Object.keys(b).length && ids.every(id => sameInput(a[id], b[id]));
+};
+
+/** Starts a recording from a freshly created world (tick 0). */
+export const createReplay = (world: World): Replay => ({
+  version: REPLAY_VERSION,
+  timestep: FIXED_TIMESTEP,
+  recordedAt: new Date().toISOString(),
+  seed: world.rngState,
+  difficulty: world.difficulty,
+  arena: world.arena,
+  config: world.config,
+  rules: world.rules,
+  roster: world.robots.map(serializeRobot),
+  frames: [],
+  tickCount: 0
+});
+
+/** Appends the inputs fed to `stepWorld` for the next tick. Mutates the replay. */
+export const recordTick = (replay: Replay, inputs: WorldInputs) => {
+  const last = replay.frames[replay.frames.length - 1];
+  if (!last || !sameInputs(last.inputs, inputs)) {
+    replay.frames.push({ tick: replay.tickCount, inputs: JSON.parse(JSON.stringify(inputs)) });
+  }
+  replay.tickCount++;
+};
+
+export const getReplayInputs = (replay: Replay, tick: number): WorldInputs => {
+  let lo = 0, hi = replay.frames.length - 1, found: WorldInputs = {};
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (replay.frames[mid].tick <= tick) { found = replay.frames[mid].inputs; lo = mid + 1; }
+    else hi = mid - 1;
+  }
+  return found;
+};
+
+export const createReplayWorld = (replay: Replay): World =>
+  createWorld(replay.roster.map(deserializeRobot), replay.seed, replay.arena, replay.difficulty, replay.config, replay.rules);
+
+const KEYFRAME_TICKS = Math.round(REPLAY_KEYFRAME_INTERVAL / FIXED_TIMESTEP);
+
+// Worlds at every KEYFRAME_TICKS, filled in as seeks pass them. Kept beside the
+// replay rather than on it so they never end up in a saved file; recording only
+// appends, so a keyframe stays valid while the replay grows.
+const keyframes = new WeakMap<Replay, World[]>();
+
+const cloneWorld = (world: World): World => ({ ...world, robots: world.robots.map(cloneRobot) });
+
+/**
+ * Rebuilds the world at `tick` by re-simulating from the nearest keyframe at
+ * or before it, so scrubbing never replays more than REPLAY_KEYFRAME_INTERVAL.
+ */
+export const seekReplay = (replay: Replay, tick: number): World => {
+  const target = Math.max(0, Math.min(tick, replay.tickCount));
+  let saved = keyframes.get(replay);
+  if (!saved) {
+    saved = [createReplayWorld(replay)];
+    keyframes.set(replay, saved);
+  }
+  const world = cloneWorld(saved[Math.min(Math.floor(target / KEYFRAME_TICKS), saved.length - 1)]);
+  while (world.tick < target) {
+    stepWorldInPlace(world, getReplayInputs(replay, world.tick), replay.timestep);
+    if (world.tick === saved.length * KEYFRAME_TICKS) saved.push(cloneWorld(world));
+  }
+  return world;
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplay = (json: string): Replay => {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ReplayFormatError('Replay file is not valid JSON');
+  }
+  if (!data || typeof data !== 'object') throw new ReplayFormatError('Replay file is empty');
+  if (data.version !== REPLAY_VERSION) {
+    throw new ReplayFormatError(`Unsupported replay version ${String(data.version)} (expected ${REPLAY_VERSION})`);
+  }
+  if (data.timestep !== FIXED_TIMESTEP) {
+    throw new ReplayFormatError(`Replay was recorded at a ${data.timestep}s timestep, this build runs at ${FIXED_TIMESTEP}s`);
+  }
+  if (!Array.isArray(data.roster) || !Array.isArray(data.frames) || typeof data.seed !== 'number' || typeof data.tickCount !== 'number') {
+    throw new ReplayFormatError('Replay file is missing roster, frames, seed or tickCount');
+  }
+  if (data.difficulty !== 'easy' && data.difficulty !== 'normal' && data.difficulty !== 'hard') {
+    throw new ReplayFormatError(`Unknown AI difficulty ${String(data.difficulty)}`);
+  }
+  if (!isMatchRules(data.rules)) throw new ReplayFormatError('Replay file has missing or unknown match rules');
+  try {
+    data.arena = parseArena(data.arena);
+    data.config = parseGameConfig(data.config);
+  } catch (err) {
+    if (err instanceof ArenaFormatError || err instanceof GameConfigError) throw new ReplayFormatError(err.message);
+    throw err;
+  }
+  return data as Replay;
+};
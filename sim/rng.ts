@@ -0,0 +1,20 @@
+// Seeded mulberry32 generator. The simulation carries the raw 32-bit state in
+// `World.rngState` so a step can be replayed from the same seed bit-for-bit.
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+
+  return {
+    next: (): number => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return state;
+    }
+  };
+};
+
+export type Rng = ReturnType<typeof createRng>;
@@ -0,0 +1,17 @@
+import { Vector3 } from 'three';
+import { RobotData, RobotType, RobotStats } from '../types';
+import { BALANCED_ALLOCATION } from '../constants';
+import { resolveStats, maxHealthFor } from './stats';
+import { createSubsystems } from './subsystems';
+import { createScorecard } from './judges';
+
+export const createRobot = (
+  id: string, isPlayer: boolean, type: RobotType, color: string, position: Vector3, rotation: number,
+  stats: RobotStats = resolveStats(type, BALANCED_ALLOCATION)
+): RobotData => ({
+  id, isPlayer, position, velocity: new Vector3(0, 0, 0), rotation, angularVelocity: 0, prevPosition: position.clone(), prevRotation: rotation,
+  health: maxHealthFor(stats), maxHealth: maxHealthFor(stats), weaponActive: false, weaponEnergy: 0,
+  weaponCooldownUntil: 0, weaponUntil: 0, liftedUntil: 0, height: 0, isDead: false, color, type, stats, stunnedUntil: 0,
+  subsystems: createSubsystems(), overdriveUntil: 0, shieldUntil: 0, overchargeUntil: 0,
+  team: 0, hillTime: 0, scorecard: createScorecard()
+});
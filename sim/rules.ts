@@ -0,0 +1,54 @@
+import { GameConfig, GameType, MatchRules, RobotData } from '../types';
+import { GAME_TYPES } from '../constants';
+import type { World } from './world';
+
+export const CLASSIC_RULES: MatchRules = { type: 'classic', friendlyFire: true };
+
+export const isTeamGame = (type: GameType) => type === 'teams2' || type === 'teams3';
+
+/** Robots per side in a team game. */
+export const teamSize = (type: GameType) => type === 'teams3' ? 3 : 2;
+
+export const createRules = (type: GameType, friendlyFire: boolean): MatchRules => ({
+  type,
+  friendlyFire: isTeamGame(type) ? friendlyFire : true
+});
+
+export const isMatchRules = (value: unknown): value is MatchRules => {
+  if (!value || typeof value !== 'object') return false;
+  const rules = value as Record<string, unknown>;
+  return GAME_TYPES.includes(rules.type as GameType) && typeof rules.friendlyFire === 'boolean';
+};
+
+/**
+ * Deals out teams for the game types that don't pick sides. In classic each
+ * player is on their own and every AI robot shares one team against them; in
+ * free-for-all and king of the hill everyone is on their own. Team games keep
+ * the teams their roster was built with.
+ */
+export const assignTeams = (robots: RobotData[], type: GameType) => {
+  if (isTeamGame(type)) return robots;
+  const players = robots.filter(r => r.isPlayer).length;
+  let nextPlayer = 0;
+  robots.forEach((robot, i) => {
+    if (type !== 'classic') robot.team = i;
+    else robot.team = robot.isPlayer ? nextPlayer++ : players;
+  });
+  return robots;
+};
+
+/** Whether a hit between these two does damage: teammates only hurt each other with friendly fire on. */
+export const canHurt = (rules: MatchRules, a: RobotData, b: RobotData) => rules.friendlyFire || a.team !== b.team;
+
+export const isOnHill = (bot: Readonly<RobotData>, config: GameConfig) =>
+  !bot.isDead && Math.hypot(bot.position.x, bot.position.z) <= config.hillRadius;
+
+/**
+ * Credits the tick to whoever holds the hill: the robots on it, as long as
+ * they're all on one team. Contested or empty, nobody scores.
+ */
+export const updateHill = (world: World, dt: number) => {
+  const holders = world.robots.filter(r => isOnHill(r, world.config));
+  if (holders.length === 0 || holders.some(r => r.team !== holders[0].team)) return;
+  holders.forEach(r => { r.hillTime += dt; });
+};
@@ -0,0 +1,13 @@
+import { RobotType, RobotStats } from '../types';
+import { CHASSIS_STATS, MAX_ROBOT_HEALTH } from '../constants';
+
+// Each rating point is worth 10% either side of the 5-point baseline.
+export const statMultiplier = (rating: number) => 0.5 + rating * 0.1;
+
+export const resolveStats = (type: RobotType, allocation: RobotStats): RobotStats => ({
+  armor: CHASSIS_STATS[type].armor + allocation.armor,
+  speed: CHASSIS_STATS[type].speed + allocation.speed,
+  power: CHASSIS_STATS[type].power + allocation.power
+});
+
+export const maxHealthFor = (stats: RobotStats) => Math.round(MAX_ROBOT_HEALTH * statMultiplier(stats.armor));
@@ -0,0 +1,62 @@
+import { Vector3 } from 'three';
+import { ArmorSide, GameConfig, RobotData, RobotSubsystems } from '../types';
+
+const FACING_ARC = 0.5; // cos(60deg), the same front/rear arcs as the armour multipliers
+
+export const createSubsystems = (): RobotSubsystems => ({
+  driveLeft: 1,
+  driveRight: 1,
+  weapon: 1,
+  armor: { front: 1, rear: 1, left: 1, right: 1 }
+});
+
+export const cloneSubsystems = (subsystems: RobotSubsystems): RobotSubsystems => ({
+  ...subsystems,
+  armor: { ...subsystems.armor }
+});
+
+/** Which of the defender's panels faces `toAttacker` (a unit vector from the defender). */
+export const impactSide = (defender: RobotData, toAttacker: Vector3): ArmorSide => {
+  const sin = Math.sin(defender.rotation), cos = Math.cos(defender.rotation);
+  const ahead = sin * toAttacker.x + cos * toAttacker.z;
+  if (ahead > FACING_ARC) return 'front';
+  if (ahead < -FACING_ARC) return 'rear';
+  // The robot's left is +x when it faces +z.
+  return cos * toAttacker.x - sin * toAttacker.z > 0 ? 'left' : 'right';
+};
+
+/** Multiplier on hull damage coming through a worn panel. */
+export const armorPenalty = (bot: RobotData, side: ArmorSide, config: GameConfig) =>
+  1 + (1 - bot.subsystems.armor[side]) * config.brokenArmorPenalty;
+
+const wear = (value: number, amount: number) => Math.max(0, value - amount);
+
+/**
+ * Wears the parts behind a hit: the panel it landed on, then the weapon for
+ * frontal hits, that side's drive for flank hits, or both drives from behind.
+ */
+export const routeDamage = (bot: RobotData, side: ArmorSide, damage: number, config: GameConfig) => {
+  const parts = bot.subsystems;
+  parts.armor[side] = wear(parts.armor[side], damage * config.armorWear);
+  const amount = damage * config.componentDamage;
+  if (side === 'front') parts.weapon = wear(parts.weapon, amount);
+  else if (side === 'left') parts.driveLeft = wear(parts.driveLeft, amount);
+  else if (side === 'right') parts.driveRight = wear(parts.driveRight, amount);
+  else {
+    parts.driveLeft = wear(parts.driveLeft, amount / 2);
+    parts.driveRight = wear(parts.driveRight, amount / 2);
+  }
+};
+
+const traction = (integrity: number, config: GameConfig) => config.minTraction + (1 - config.minTraction) * integrity;
+
+/** Share of full thrust and turn rate the two drive sides still deliver. */
+export const driveTraction = (bot: RobotData, config: GameConfig) =>
+  (traction(bot.subsystems.driveLeft, config) + traction(bot.subsystems.driveRight, config)) / 2;
+
+/**
+ * Per-tick turn from lopsided drives: the weak side lags, so the robot veers
+ * towards it going forwards and away from it in reverse. Positive turns left.
+ */
+export const drivePull = (bot: RobotData, throttle: number, config: GameConfig) =>
+  (traction(bot.subsystems.driveRight, config) - traction(bot.subsystems.driveLeft, config)) * throttle * config.drivePull * config.turnSpeed;
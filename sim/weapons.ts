@@ -0,0 +1,86 @@
+import { RobotData, ControlInput, GameConfig } from '../types';
+import { statMultiplier } from './stats';
+
+export interface WeaponHit {
+  knock: number;
+  damage: number;
+  recoil: number;
+}
+
+const NO_HIT: WeaponHit = { knock: 0, damage: 0, recoil: 0 };
+
+export const isAirborne = (bot: RobotData, now: number) => now < bot.liftedUntil;
+
+/**
+ * Applies the weapon control for this tick: spinners and wedges are held,
+ * tanks fire a ram charge whenever the cooldown allows. Only called while the
+ * robot is able to act (not stunned or airborne). A wrecked weapon still
+ * "fires" but does nothing; see `bot.subsystems.weapon` below.
+ */
+export const applyWeaponInput = (bot: RobotData, input: ControlInput, now: number, config: GameConfig) => {
+  if (bot.type === 'tank') {
+    if (input.weapon && now >= bot.weaponCooldownUntil && bot.subsystems.weapon > 0) {
+      bot.weaponUntil = now + config.ramDuration;
+      bot.weaponCooldownUntil = now + config.ramCooldown;
+    }
+    return;
+  }
+  bot.weaponActive = input.weapon;
+};
+
+/** Per-tick weapon upkeep that runs regardless of control: spin energy, ram thrust, lift hop. */
+export const updateWeapon = (bot: RobotData, now: number, config: GameConfig) => {
+  if (bot.type === 'spinner') {
+    // A damaged disc motor spins up slower; a wrecked one not at all.
+    bot.weaponEnergy = bot.weaponActive
+      ? Math.min(1, bot.weaponEnergy + config.spinUpRate * bot.subsystems.weapon)
+      : Math.max(0, bot.weaponEnergy - config.spinDownRate);
+  } else if (bot.type === 'tank') {
+    bot.weaponActive = now < bot.weaponUntil;
+    if (bot.weaponActive) {
+      const thrust = config.moveSpeed * config.ramThrust * statMultiplier(bot.stats.speed) * bot.subsystems.weapon;
+      bot.velocity.x += Math.sin(bot.rotation) * thrust;
+      bot.velocity.z += Math.cos(bot.rotation) * thrust;
+    }
+  }
+  const airtime = bot.liftedUntil - now;
+  bot.height = airtime > 0 ? Math.sin((airtime / config.wedgeLiftTime) * Math.PI) * config.liftHeight : 0;
+};
+
+const inFrontCone = (attacker: RobotData, defender: RobotData, cone: number) => {
+  const dx = defender.position.x - attacker.position.x, dz = defender.position.z - attacker.position.z;
+  const len = Math.hypot(dx, dz) || 1;
+  const facing = (dx * Math.sin(attacker.rotation) + dz * Math.cos(attacker.rotation)) / len;
+  return facing >= Math.cos(cone);
+};
+
+/**
+ * Resolves what `attacker`'s weapon does to `defender` on contact. May spend
+ * the attacker's weapon (spin energy, ram charge, lift cooldown) and lift the
+ * defender.
+ */
+export const resolveWeaponHit = (attacker: RobotData, defender: RobotData, now: number, config: GameConfig): WeaponHit => {
+  const power = statMultiplier(attacker.stats.power);
+  switch (attacker.type) {
+    case 'spinner': {
+      const energy = attacker.weaponEnergy;
+      if (energy <= 0) return NO_HIT;
+      attacker.weaponEnergy = Math.max(0, energy - config.spinImpactDrain);
+      const knock = config.spinnerKnock * energy * power;
+      return { knock, damage: config.weaponDamage * energy * power, recoil: knock * 0.5 };
+    }
+    case 'wedge': {
+      // A bent plate lifts weakly, and a wrecked one can't get under anything.
+      const plate = attacker.subsystems.weapon;
+      if (!attacker.weaponActive || plate <= 0 || now < attacker.weaponCooldownUntil || !inFrontCone(attacker, defender, config.wedgeLiftCone)) return NO_HIT;
+      attacker.weaponCooldownUntil = now + config.wedgeLiftCooldown;
+      defender.liftedUntil = now + config.wedgeLiftTime;
+      return { knock: config.wedgeLiftKnock * power * plate, damage: config.wedgeLiftDamage * power, recoil: 0 };
+    }
+    case 'tank': {
+      if (now >= attacker.weaponUntil) return NO_HIT;
+      attacker.weaponUntil = now; // The charge is spent on the first impact
+      return { knock: config.ramKnock * power, damage: config.ramDamage * power, recoil: 0 };
+    }
+  }
+};
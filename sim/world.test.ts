@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'three';
+import { getArena } from '../arenas';
+import { FIXED_TIMESTEP } from '../constants';
+import { createRobot } from './roster';
+import { createWorld, stepWorld, stepWorldInPlace, World, WorldInputs } from './world';
+import { serializeRobot } from './replay';
+
+const snapshot = (world: World) => JSON.stringify({ tick: world.tick, rngState: world.rngState, robots: world.robots.map(serializeRobot) });
+
+// A player tank aimed at classic's north-west corner, where the walls stop short of the pit.
+const cornerRun = () => {
+  const world = createWorld([createRobot('p', true, 'tank', '#fff', new Vector3(-3, 0, -3), -3 * Math.PI / 4)], 3, getArena('classic'));
+  const inputs: WorldInputs = { p: { throttle: 1, turn: 0, weapon: false } };
+  let ringOutTick: number | null = null;
+  while (world.tick < 600 && ringOutTick === null) {
+    stepWorldInPlace(world, inputs, FIXED_TIMESTEP);
+    if (world.events.some(e => e.type === 'ringOut')) ringOutTick = world.tick;
+  }
+  return { world, ringOutTick };
+};
+
+const melee = (arenaId: string, ticks: number) => {
+  let world = createWorld([
+    createRobot('p', true, 'spinner', '#fff', new Vector3(0, 0, 0), 0),
+    createRobot('e0', false, 'tank', '#f00', new Vector3(6, 0, 0), Math.PI),
+    createRobot('e1', false, 'wedge', '#0f0', new Vector3(-3, 0, 5.2), 0),
+    createRobot('e2', false, 'spinner', '#00f', new Vector3(-3, 0, -5.2), 0)
+  ], 7, getArena(arenaId));
+  for (let t = 0; t < ticks; t++) {
+    world = stepWorld(world, { p: { throttle: t % 300 < 150 ? 1 : 0, turn: t % 200 < 50 ? 1 : 0, weapon: t % 120 < 30 } }, FIXED_TIMESTEP);
+  }
+  return world;
+};
+
+describe('ring-outs', () => {
+  it('drops a robot driven through a corner gap into the pit', () => {
+    const { world, ringOutTick } = cornerRun();
+    expect(ringOutTick).not.toBeNull();
+    expect(world.robots[0].isDead).toBe(true);
+    expect(world.robots[0].position.x).toBeLessThan(-6);
+    expect(world.robots[0].position.z).toBeLessThan(-6);
+  });
+
+  it('happens on the same tick and in the same place every run', () => {
+    const first = cornerRun(), second = cornerRun();
+    expect(second.ringOutTick).toBe(first.ringOutTick);
+    expect(snapshot(second.world)).toBe(snapshot(first.world));
+  });
+});
+
+describe('stepWorld', () => {
+  it.each(['classic', 'foundry', 'landslide'])('is deterministic on %s', arenaId => {
+    expect(snapshot(melee(arenaId, 1200))).toBe(snapshot(melee(arenaId, 1200)));
+  });
+
+  it('leaves the input world untouched', () => {
+    const world = createWorld([createRobot('p', true, 'tank', '#fff', new Vector3(0, 0, 0), 0)], 1, getArena('classic'));
+    const before = snapshot(world);
+    stepWorld(world, { p: { throttle: 1, turn: 1, weapon: true } }, FIXED_TIMESTEP);
+    expect(snapshot(world)).toBe(before);
+  });
+});
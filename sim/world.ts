@@ -0,0 +1,191 @@
+import { RobotData, ControlInput, Difficulty, ArenaDefinition, GameConfig, Pickup, MatchRules } from '../types';
+import { AI_DIFFICULTY, DEFAULT_GAME_CONFIG } from '../constants';
+import { createRng } from './rng';
+import { thinkFor } from './ai';
+import { statMultiplier } from './stats';
+import { applyWeaponInput, updateWeapon, isAirborne } from './weapons';
+import { cloneSubsystems, driveTraction, drivePull } from './subsystems';
+import { resolveCollision } from './collision';
+import { collideArena, isRingOut, applyHazards } from './arena';
+import { updatePickups, overdriveBoost, shieldFactor } from './pickups';
+import { CLASSIC_RULES, isTeamGame, canHurt, updateHill } from './rules';
+import { isTimed, pitsReleased } from './clock';
+import { JudgeScore, updateScorecards, judgeDecision } from './judges';
+import { SimEvent } from './events';
+
+export interface World {
+  robots: RobotData[];
+  tick: number;
+  time: number;
+  rngState: number;
+  difficulty: Difficulty;
+  arena: ArenaDefinition;
+  config: GameConfig;
+  rules: MatchRules;
+  pickups: Pickup[];
+  nextPickupAt: number;
+  // Emitted by the step that produced this world.
+  events: SimEvent[];
+}
+
+// Inputs for the current tick, keyed by robot id. Players without an entry idle;
+// an entry for an enemy (a bot script driving it) replaces its built-in AI.
+export type WorldInputs = Record<string, ControlInput>;
+
+// `winningTeam` is null when nobody won: everyone is out, or (outside team
+// games) every player is and the rest are still fighting. `winnerId` is a robot
+// on the winning team, a surviving player where there is one. `decision` holds
+// the judges' scores when the clock ran out.
+export interface MatchOutcome {
+  winnerId: string | null;
+  winningTeam: number | null;
+  decision: JudgeScore[] | null;
+}
+
+export const NEUTRAL_INPUT: ControlInput = { throttle: 0, turn: 0, weapon: false };
+
+export const createWorld = (
+  robots: RobotData[],
+  seed: number,
+  arena: ArenaDefinition,
+  difficulty: Difficulty = 'normal',
+  config: GameConfig = DEFAULT_GAME_CONFIG,
+  rules: MatchRules = CLASSIC_RULES
+): World => ({
+  robots,
+  tick: 0,
+  time: 0,
+  rngState: seed >>> 0,
+  difficulty,
+  arena,
+  config,
+  rules,
+  pickups: [],
+  nextPickupAt: config.pickupInterval,
+  events: []
+});
+
+export const cloneRobot = (robot: RobotData): RobotData => ({
+  ...robot,
+  position: robot.position.clone(),
+  velocity: robot.velocity.clone(),
+  prevPosition: robot.prevPosition.clone(),
+  subsystems: cloneSubsystems(robot.subsystems),
+  scorecard: { ...robot.scorecard }
+});
+
+const teamWins = (robots: RobotData[], team: number | null): MatchOutcome => {
+  const side = robots.filter(r => r.team === team);
+  const winner = side.find(r => r.isPlayer && !r.isDead) ?? side.find(r => !r.isDead);
+  return { winnerId: winner?.id ?? null, winningTeam: team, decision: null };
+};
+
+/**
+ * The match ends when one team is left standing or, in king of the hill, when
+ * a robot has held the hill for `hillHoldTime`. Outside team games it also
+ * ends once every player is out. A timed match that's still going at the
+ * bell goes to the judges.
+ */
+export const getMatchOutcome = (world: World): MatchOutcome | null => {
+  const { robots, rules, config } = world;
+  if (rules.type === 'koth') {
+    const king = robots.find(r => r.hillTime >= config.hillHoldTime);
+    if (king) return { winnerId: king.id, winningTeam: king.team, decision: null };
+  }
+  const alive = robots.filter(r => !r.isDead);
+  if (alive.every(r => r.team === alive[0].team)) return teamWins(robots, alive[0]?.team ?? null);
+  const players = robots.filter(r => r.isPlayer);
+  if (!isTeamGame(rules.type) && players.length > 0 && players.every(r => r.isDead)) return { winnerId: null, winningTeam: null, decision: null };
+  if (isTimed(config) && world.time >= config.matchTime) return judgeDecision(world);
+  return null;
+};
+
+/**
+ * Advances the simulation by one fixed tick of `dt` seconds. The config's
+ * movement values are per-tick amounts, so callers must always pass FIXED_TIMESTEP
+ * for consistent behaviour. The input world is left untouched; a new world with
+ * cloned robots and the advanced RNG state is returned.
+ */
+export const stepWorld = (world: World, inputs: WorldInputs, dt: number): World =>
+  stepWorldInPlace({ ...world, robots: world.robots.map(cloneRobot) }, inputs, dt);
+
+/**
+ * The same tick as `stepWorld`, but the world and its robots are updated where
+ * they are and the same world is returned. The live game loop uses this so a
+ * frame allocates next to nothing; anything holding on to a world must use
+ * `stepWorld`.
+ */
+export const stepWorldInPlace = (world: World, inputs: WorldInputs, dt: number): World => {
+  const now = world.time;
+  const { config, robots } = world;
+  const rng = createRng(world.rngState);
+  const events: SimEvent[] = [];
+
+  // AI decisions all read the same start-of-tick snapshot.
+  const aiInputs: WorldInputs = {};
+  robots.forEach(bot => {
+    if (bot.isPlayer || inputs[bot.id] || bot.isDead || now < bot.stunnedUntil || isAirborne(bot, now)) return;
+    aiInputs[bot.id] = thinkFor({
+      self: bot, robots, pickups: world.pickups, time: now, difficulty: world.difficulty, arena: world.arena, config, rules: world.rules, random: rng.next
+    });
+  });
+
+  const ai = AI_DIFFICULTY[world.difficulty];
+  robots.forEach(bot => {
+    bot.prevPosition.copy(bot.position);
+    bot.prevRotation = bot.rotation;
+    if (bot.isDead) return;
+    const wasActive = bot.weaponActive;
+    if (now >= bot.stunnedUntil && !isAirborne(bot, now)) {
+      const input = inputs[bot.id] ?? aiInputs[bot.id] ?? NEUTRAL_INPUT;
+      const mobility = statMultiplier(bot.stats.speed);
+      const speedScale = (bot.isPlayer ? 1 : config.enemySpeedMult * ai.speed) * mobility * overdriveBoost(bot, now, config);
+      const turnScale = (bot.isPlayer ? 1 : config.enemyTurnMult * ai.turn) * mobility;
+      const grip = driveTraction(bot, config);
+      bot.rotation += (input.turn * config.turnSpeed * grip + drivePull(bot, input.throttle, config)) * turnScale;
+      const thrust = input.throttle * config.moveSpeed * speedScale * grip;
+      bot.velocity.x += Math.sin(bot.rotation) * thrust;
+      bot.velocity.z += Math.cos(bot.rotation) * thrust;
+      applyWeaponInput(bot, input, now, config);
+    }
+    updateWeapon(bot, now, config);
+    if (bot.weaponActive !== wasActive) events.push({ type: 'weaponToggle', time: now, robotId: bot.id, active: bot.weaponActive });
+    bot.rotation += bot.angularVelocity;
+    bot.angularVelocity *= config.angularDamping;
+    bot.position.add(bot.velocity);
+    bot.velocity.multiplyScalar(isAirborne(bot, now) ? config.liftedFriction : config.friction);
+    collideArena(bot, world.arena);
+    if (!isAirborne(bot, now)) {
+      const hazardDamage = Math.min(bot.health, applyHazards(bot, world.arena, now, dt) * shieldFactor(bot, now, config));
+      if (hazardDamage > 0) {
+        bot.health -= hazardDamage;
+        events.push({ type: 'damage', time: now, targetId: bot.id, sourceId: null, amount: hazardDamage, weapon: false });
+      }
+      const ringOut = isRingOut(bot, world.arena, pitsReleased(config, now));
+      if (bot.health <= 0 || ringOut) {
+        events.push(ringOut
+          ? { type: 'ringOut', time: now, robotId: bot.id }
+          : { type: 'destroyed', time: now, robotId: bot.id, byId: null });
+        bot.isDead = true;
+        bot.health = 0;
+      }
+    }
+  });
+
+  for (let i = 0; i < robots.length; i++) {
+    for (let j = i + 1; j < robots.length; j++) {
+      if (robots[i].isDead || robots[j].isDead) continue;
+      resolveCollision(robots[i], robots[j], now, config, events, canHurt(world.rules, robots[i], robots[j]));
+    }
+  }
+
+  updatePickups(world, now, rng, events);
+  if (world.rules.type === 'koth') updateHill(world, dt);
+  updateScorecards(world, events, dt);
+
+  world.tick++;
+  world.time = now + dt;
+  world.rngState = rng.state;
+  world.events = events;
+  return world;
+};
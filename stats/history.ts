@@ -0,0 +1,45 @@
+import { MatchReport } from '../types';
+import { HISTORY_LIMIT, HISTORY_STORAGE_KEY } from '../constants';
+import { loadJson, saveJson } from '../settings/storage';
+
+export interface PersonalBests {
+  matches: number;
+  wins: number;
+  fastestWin: number | null;
+  mostDamage: number;
+  mostEliminations: number;
+  topSpeed: number;
+}
+
+const isReport = (value: unknown): value is MatchReport => {
+  if (!value || typeof value !== 'object') return false;
+  const { playedAt, duration, robots, timeline } = value as Partial<MatchReport>;
+  return typeof playedAt === 'string' && typeof duration === 'number' && Array.isArray(robots) && Array.isArray(timeline);
+};
+
+/** Most recent match first. */
+export const loadHistory = (): MatchReport[] => (loadJson(HISTORY_STORAGE_KEY, Array.isArray) ?? []).filter(isReport);
+
+export const recordMatch = (history: MatchReport[], report: MatchReport): MatchReport[] => {
+  const next = [report, ...history].slice(0, HISTORY_LIMIT);
+  saveJson(HISTORY_STORAGE_KEY, next);
+  return next;
+};
+
+// Bests only count single-player matches, where "you" is unambiguous.
+export const personalBests = (history: MatchReport[]): PersonalBests => {
+  const solo = history.filter(r => r.mode === 'solo');
+  const bests: PersonalBests = { matches: solo.length, wins: 0, fastestWin: null, mostDamage: 0, mostEliminations: 0, topSpeed: 0 };
+  solo.forEach(report => {
+    const you = report.robots.find(r => r.isPlayer);
+    if (!you) return;
+    if (report.playerWon) {
+      bests.wins++;
+      bests.fastestWin = bests.fastestWin === null ? report.duration : Math.min(bests.fastestWin, report.duration);
+    }
+    bests.mostDamage = Math.max(bests.mostDamage, you.damageDealt);
+    bests.mostEliminations = Math.max(bests.mostEliminations, you.ringOuts + you.kos);
+    bests.topSpeed = Math.max(bests.topSpeed, you.topSpeed);
+  });
+  return bests;
+};
@@ -0,0 +1,115 @@
+import { MatchMode, MatchReport, RobotData, RobotMatchStats } from '../types';
+import { FIXED_TIMESTEP, RING_OUT_CREDIT_WINDOW, STATS_SAMPLE_INTERVAL } from '../constants';
+import { World, MatchOutcome } from '../sim/world';
+import { gameEvents } from '../events/gameEvents';
+
+// Accumulates a live match into a report: damage and eliminations arrive on the
+// game event bus, speed and the damage timeline are sampled once per tick.
+export interface MatchTracker {
+  report: MatchReport;
+  lastHit: Record<string, { by: string; time: number }>;
+  nextSample: number;
+  dispose: () => void;
+}
+
+/** How a robot is named in match reports (and anywhere else players read it). */
+export const labelFor = (robot: RobotData, robots: RobotData[], mode: MatchMode) => {
+  if (!robot.isPlayer) return `${robots.some(r => r.isPlayer && r.team === robot.team) ? 'ALLY' : 'ENEMY'} ${robot.type}`;
+  return mode === 'versus' ? `P${robots.filter(r => r.isPlayer).indexOf(robot) + 1}` : 'PLAYER';
+};
+
+const emptyStats = (robot: RobotData, robots: RobotData[], mode: MatchMode): RobotMatchStats => ({
+  id: robot.id,
+  label: labelFor(robot, robots, mode),
+  type: robot.type,
+  color: robot.color,
+  isPlayer: robot.isPlayer,
+  hits: 0,
+  damageDealt: 0,
+  damageTaken: 0,
+  ringOuts: 0,
+  kos: 0,
+  eliminated: null,
+  timeAlive: 0,
+  topSpeed: 0
+});
+
+const statsFor = (report: MatchReport, id: string | null) => id ? report.robots.find(r => r.id === id) : undefined;
+
+const eliminate = (tracker: MatchTracker, robotId: string, cause: 'ringout' | 'ko', byId: string | null, time: number) => {
+  const { report, lastHit } = tracker;
+  const target = statsFor(report, robotId);
+  if (target) { target.eliminated = cause; target.timeAlive = time; }
+  const recent = lastHit[robotId];
+  const credited = statsFor(report, byId ?? (recent && time - recent.time <= RING_OUT_CREDIT_WINDOW ? recent.by : null));
+  if (credited) {
+    if (cause === 'ringout') credited.ringOuts++; else credited.kos++;
+  }
+};
+
+export const createMatchTracker = (world: World, mode: MatchMode): MatchTracker => {
+  const tracker: MatchTracker = {
+    report: {
+      playedAt: new Date().toISOString(),
+      mode,
+      arenaId: world.arena.id,
+      duration: 0,
+      winnerId: null,
+      playerWon: false,
+      robots: world.robots.map(r => emptyStats(r, world.robots, mode)),
+      timeline: [{ time: 0, damage: Object.fromEntries(world.robots.map(r => [r.id, 0])) }]
+    },
+    lastHit: {},
+    nextSample: STATS_SAMPLE_INTERVAL,
+    dispose: () => {}
+  };
+  const { report, lastHit } = tracker;
+  const unsubscribe = [
+    gameEvents.on('damage', event => {
+      const source = statsFor(report, event.sourceId), target = statsFor(report, event.targetId);
+      if (source && event.weapon) source.hits++;
+      if (source) source.damageDealt += event.amount;
+      if (target) target.damageTaken += event.amount;
+      if (event.sourceId) lastHit[event.targetId] = { by: event.sourceId, time: event.time };
+    }),
+    gameEvents.on('ringOut', event => eliminate(tracker, event.robotId, 'ringout', null, event.time)),
+    gameEvents.on('destroyed', event => eliminate(tracker, event.robotId, 'ko', event.byId, event.time))
+  ];
+  tracker.dispose = () => unsubscribe.forEach(off => off());
+  return tracker;
+};
+
+/** Samples robot state from a freshly stepped world. */
+export const trackStep = (tracker: MatchTracker, world: World) => {
+  const { report } = tracker;
+  world.robots.forEach(robot => {
+    const stats = statsFor(report, robot.id);
+    if (!stats || robot.isDead) return;
+    stats.topSpeed = Math.max(stats.topSpeed, Math.hypot(robot.velocity.x, robot.velocity.z) / FIXED_TIMESTEP);
+  });
+
+  if (world.time >= tracker.nextSample) {
+    report.timeline.push({ time: world.time, damage: Object.fromEntries(report.robots.map(r => [r.id, r.damageTaken])) });
+    tracker.nextSample += STATS_SAMPLE_INTERVAL;
+  }
+};
+
+/** Closes the report and unsubscribes: survivors are credited with the full match length. */
+export const finishMatch = (tracker: MatchTracker, world: World, { winnerId, winningTeam }: MatchOutcome): MatchReport => {
+  const { report } = tracker;
+  tracker.dispose();
+  report.robots.forEach(stats => {
+    if (!stats.eliminated) stats.timeAlive = world.time;
+  });
+  const last = report.timeline[report.timeline.length - 1];
+  if (last.time < world.time) {
+    report.timeline.push({ time: world.time, damage: Object.fromEntries(report.robots.map(r => [r.id, r.damageTaken])) });
+  }
+  return {
+    ...report,
+    duration: world.time,
+    winnerId,
+    // In team games a player wins with their team, even if knocked out.
+    playerWon: world.robots.some(r => r.isPlayer && r.team === winningTeam)
+  };
+};
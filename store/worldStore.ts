@@ -0,0 +1,63 @@
+import { RobotData } from '../types';
+import { World } from '../sim/world';
+
+// `replaced` is true when a different world was swapped in (new match, seek),
+// false when the current one was stepped in place.
+export type WorldListener = (replaced: boolean) => void;
+
+/**
+ * Holds the world being shown outside React. GameLoop steps it in place every
+ * frame and meshes read it from their own frame callbacks, so nothing
+ * re-renders per tick; the HUD subscribes through `useWorldSnapshot`.
+ */
+export interface WorldStore {
+  /** The current world. It changes under you between frames; don't keep it. */
+  get: () => World;
+  /** Swaps in a different world (new match, replay seek, finale). */
+  replace: (world: World) => void;
+  /** Takes on `world`'s state while keeping the current robot objects if the roster is unchanged. */
+  adopt: (world: World) => void;
+  /** Call after stepping the current world in place. */
+  touch: () => void;
+  subscribe: (listener: WorldListener) => () => void;
+}
+
+const sameRoster = (a: RobotData[], b: RobotData[]) => a.length === b.length && a.every((robot, i) => robot.id === b[i].id);
+
+const copyRobot = (target: RobotData, source: RobotData) => {
+  const { position, velocity, prevPosition, ...rest } = source;
+  Object.assign(target, rest);
+  target.position.copy(position);
+  target.velocity.copy(velocity);
+  target.prevPosition.copy(prevPosition);
+};
+
+export const createWorldStore = (initial: World): WorldStore => {
+  let world = initial;
+  const listeners = new Set<WorldListener>();
+  const notify = (replaced: boolean) => listeners.forEach(listener => listener(replaced));
+
+  const replace = (next: World) => {
+    world = next;
+    notify(true);
+  };
+
+  return {
+    get: () => world,
+    replace,
+    adopt: (next) => {
+      if (!sameRoster(world.robots, next.robots)) {
+        replace(next);
+        return;
+      }
+      world.robots.forEach((robot, i) => copyRobot(robot, next.robots[i]));
+      world = { ...next, robots: world.robots };
+      notify(false);
+    },
+    touch: () => notify(false),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
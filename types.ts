@@ -4,23 +4,363 @@ import { Vector3 } from 'three';
 export enum GameState {
   START = 'START',
   PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
+  FINALE = 'FINALE',
+  DECISION = 'DECISION',
+  GARAGE = 'GARAGE',
   GAME_OVER = 'GAME_OVER',
-  VICTORY = 'VICTORY'
+  VICTORY = 'VICTORY',
+  REPLAY = 'REPLAY',
+  BRACKET = 'BRACKET',
+  INTERMISSION = 'INTERMISSION'
 }
 
 export type RobotType = 'spinner' | 'wedge' | 'tank';
 
+export type MatchMode = 'solo' | 'versus';
+
+// How a match is scored, on top of who's playing (MatchMode). Classic is every
+// AI against the players; the others are free-for-all, two teams of 2 or 3,
+// and king of the hill.
+export type GameType = 'classic' | 'ffa' | 'teams2' | 'teams3' | 'koth';
+
+export interface MatchRules {
+  type: GameType;
+  // Whether teammates hurt each other. Always on outside team games.
+  friendlyFire: boolean;
+}
+
+export type Difficulty = 'easy' | 'normal' | 'hard';
+
+// Stat ratings on a 1..STAT_MAX scale; 5 is the baseline (1.0x).
+export interface RobotStats {
+  armor: number;
+  speed: number;
+  power: number;
+}
+
 export interface RobotData {
   id: string;
   isPlayer: boolean;
   position: Vector3;
   velocity: Vector3;
   rotation: number;
+  // Spin picked up from off-centre hits, in rad per tick.
+  angularVelocity: number;
+  // Pose at the start of the last simulation tick, used for render interpolation.
+  prevPosition: Vector3;
+  prevRotation: number;
   health: number;
   maxHealth: number;
   weaponActive: boolean;
+  // Spinner disc energy in [0, 1].
+  weaponEnergy: number;
+  // Wedge lift / tank ram recharge, and the end of the current ram charge.
+  weaponCooldownUntil: number;
+  weaponUntil: number;
+  // Airborne after a wedge lift: no traction until this time. `height` is the hop.
+  liftedUntil: number;
+  height: number;
   isDead: boolean;
   color: string;
   type: RobotType;
+  stats: RobotStats;
   stunnedUntil: number;
+  subsystems: RobotSubsystems;
+  // Pickup effects run until these sim times.
+  overdriveUntil: number;
+  shieldUntil: number;
+  overchargeUntil: number;
+  // Robots only fight other teams. See sim/rules.ts for how teams are dealt out.
+  team: number;
+  // Seconds spent holding the hill (king of the hill).
+  hillTime: number;
+  // What the judges go on if the clock runs out.
+  scorecard: Scorecard;
+}
+
+// Repair kits act at once; the rest are timed effects.
+export type PickupKind = 'repair' | 'overdrive' | 'shield' | 'overcharge';
+
+// `id` is the tick it spawned on.
+export interface Pickup {
+  id: number;
+  kind: PickupKind;
+  position: Vec2;
+}
+
+export type ArmorSide = 'front' | 'rear' | 'left' | 'right';
+
+// Integrity of each part in [0, 1], where 0 is wrecked. Separate from `health`,
+// which is the hull: parts wear from hits on their side and only degrade handling.
+export interface RobotSubsystems {
+  driveLeft: number;
+  driveRight: number;
+  weapon: number;
+  armor: Record<ArmorSide, number>;
+}
+
+// Running totals for a judges' decision: damage dealt to other teams, and
+// seconds spent closing on an enemy or shoving one towards a wall or pit.
+export interface Scorecard {
+  damage: number;
+  aggression: number;
+  control: number;
+}
+
+// Per-tick control intent for one robot: throttle and turn in [-1, 1].
+export interface ControlInput {
+  throttle: number;
+  turn: number;
+  weapon: boolean;
+}
+
+// Key codes (KeyboardEvent.code) that drive one player's robot.
+export interface KeyBinding {
+  forward: string[];
+  reverse: string[];
+  left: string[];
+  right: string[];
+  weapon: string[];
+}
+
+export type ControlAction = keyof KeyBinding;
+
+// Which connected pad (navigator.getGamepads() slot) drives the robot, if any.
+// The left stick is throttle/turn; the weapon button is remappable.
+export interface GamepadBinding {
+  index: number | null;
+  weaponButton: number;
+}
+
+export interface PlayerBinding {
+  keyboard: KeyBinding;
+  gamepad: GamepadBinding;
+}
+
+export interface BindingProfiles {
+  solo: PlayerBinding;
+  versus: [PlayerBinding, PlayerBinding];
+}
+
+// A garage build: chassis, paint, and how the STAT_BUDGET points are spread.
+export interface Loadout {
+  type: RobotType;
+  color: string;
+  allocation: RobotStats;
+}
+
+// Volumes in [0, 1]. SFX sits under master.
+export interface AudioMixer {
+  master: number;
+  sfx: number;
+  muted: boolean;
+}
+
+// Broadcast is the automatic director; it also takes over once your robot is out.
+export type CameraMode = 'chase' | 'tactical' | 'orbit' | 'broadcast';
+
+export interface GraphicsSettings {
+  shadows: boolean;
+  // Texture size for the soft shadows under the robots; 0 turns them off.
+  contactShadowResolution: number;
+  environment: boolean;
+}
+
+export interface Settings {
+  graphics: GraphicsSettings;
+  camera: CameraMode;
+}
+
+// --- GAME CONFIG ---
+// Simulation tuning, carried on the World so each match can run its own.
+// Defaults live in constants.ts; see sim/config.ts for validation and overrides.
+export interface GameConfig {
+  // Movement, per tick. Enemy multipliers scale AI robots on top of difficulty.
+  moveSpeed: number;
+  turnSpeed: number;
+  enemySpeedMult: number;
+  enemyTurnMult: number;
+  friction: number;
+  liftedFriction: number;
+  angularDamping: number;
+  // Collisions
+  knockbackForce: number;
+  chassisMass: Record<RobotType, number>;
+  restitution: number;
+  spinTransfer: number;
+  spinInertia: number;
+  armorFacing: Record<'front' | 'side' | 'rear', number>;
+  wedgeFrontDeflect: number;
+  wedgeDeflectKnock: number;
+  // Spinner
+  weaponDamage: number;
+  spinUpRate: number;
+  spinDownRate: number;
+  spinImpactDrain: number;
+  spinnerKnock: number;
+  // Wedge
+  wedgeLiftCone: number;
+  wedgeLiftTime: number;
+  wedgeLiftCooldown: number;
+  wedgeLiftKnock: number;
+  wedgeLiftDamage: number;
+  liftHeight: number;
+  // Tank
+  ramDuration: number;
+  ramCooldown: number;
+  ramThrust: number;
+  ramKnock: number;
+  ramDamage: number;
+  // Subsystems
+  componentDamage: number;
+  armorWear: number;
+  brokenArmorPenalty: number;
+  drivePull: number;
+  minTraction: number;
+  // Pickups
+  pickupInterval: number;
+  pickupLimit: number;
+  pickupDuration: number;
+  repairAmount: number;
+  overdriveBoost: number;
+  shieldFactor: number;
+  overchargeFactor: number;
+  // King of the hill
+  hillRadius: number;
+  hillHoldTime: number;
+  // Match clock
+  matchTime: number;
+  pitRelease: number;
+  judgePoints: Scorecard;
+}
+
+// Partial config layered over the defaults; record fields merge key by key.
+export type GameConfigOverrides = {
+  [K in keyof GameConfig]?: GameConfig[K] extends number ? number : Partial<GameConfig[K]>;
+};
+
+// --- CAMPAIGN ---
+export interface CampaignEnemy {
+  type: RobotType;
+  allocation: RobotStats;
+}
+
+// One fight in the bracket. Rounds set their own arena and AI difficulty.
+export interface CampaignRound {
+  name: string;
+  arenaId: string;
+  difficulty: Difficulty;
+  enemies: CampaignEnemy[];
+  // Tuning for this fight only, over the solo defaults.
+  config?: GameConfigOverrides;
+}
+
+// A run in progress. `hull` is the player's health carried into the next round;
+// `repairBudget` is hull points that can still be bought back between fights.
+export interface CampaignRun {
+  loadout: Loadout;
+  round: number;
+  hull: number;
+  repairBudget: number;
+}
+
+// --- MATCH STATS ---
+export interface RobotMatchStats {
+  id: string;
+  label: string;
+  type: RobotType;
+  color: string;
+  isPlayer: boolean;
+  hits: number;
+  damageDealt: number;
+  damageTaken: number;
+  ringOuts: number; // Opponents this robot pushed out or into a pit
+  kos: number;
+  eliminated: 'ringout' | 'ko' | null;
+  timeAlive: number;
+  topSpeed: number; // units per second
+}
+
+// Cumulative damage taken per robot id, sampled once per STATS_SAMPLE_INTERVAL.
+export interface DamageSample {
+  time: number;
+  damage: Record<string, number>;
+}
+
+export interface MatchReport {
+  playedAt: string;
+  mode: MatchMode;
+  arenaId: string;
+  duration: number;
+  winnerId: string | null;
+  playerWon: boolean;
+  robots: RobotMatchStats[];
+  timeline: DamageSample[];
+}
+
+// --- ARENA DEFINITIONS ---
+// Points are [x, z] on the floor plane. See arenas/arena.schema.json.
+export type Vec2 = [number, number];
+
+export interface WallSegment {
+  from: Vec2;
+  to: Vec2;
+  thickness?: number;
+  height?: number;
+}
+
+export interface PitZone {
+  polygon: Vec2[];
+}
+
+// Turntable that drags anything on it around its centre.
+export interface FloorSpinner {
+  position: Vec2;
+  radius: number;
+  speed: number; // rad/s, positive is counter-clockwise seen from above
+}
+
+// Burns robots within `radius` while active: `duration` seconds out of every `period`.
+export interface FlameVent {
+  position: Vec2;
+  radius: number;
+  period: number;
+  duration: number;
+  offset?: number;
+  damage: number; // per second
+}
+
+// Swings down once per `period` onto a `reach` x `width` strip in front of its pivot.
+export interface Hammer {
+  position: Vec2;
+  rotation: number;
+  reach: number;
+  width: number;
+  period: number;
+  offset?: number;
+  damage: number;
+  knock: number;
+}
+
+// Axis-aligned incline; robots inside are pushed by `push` (units per tick).
+export interface SlopeZone {
+  min: Vec2;
+  max: Vec2;
+  push: Vec2;
+}
+
+export interface ArenaDefinition {
+  id: string;
+  name: string;
+  size: number;
+  walls: WallSegment[];
+  pillars: Vec2[];
+  pits: PitZone[];
+  // Closed until the pit release in the last seconds of a timed match.
+  releasePits: PitZone[];
+  spinners: FloorSpinner[];
+  vents: FlameVent[];
+  hammers: Hammer[];
+  slopes: SlopeZone[];
 }